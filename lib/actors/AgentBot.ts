@@ -0,0 +1,238 @@
+import { CollateralReserved, HandshakeRequired, RedemptionRequested, UnderlyingWithdrawalAnnounced } from "../../typechain-truffle/IIAssetManager";
+import { RedemptionPaymentAction, redemptionPaymentAction, validateRedemptionPayment } from "../fasset/RedemptionPaymentValidation";
+import { TrackedAgentState } from "../state/TrackedAgentState";
+import { TrackedState } from "../state/TrackedState";
+import { AttestationHelper } from "../underlying-chain/AttestationHelper";
+import { ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { paymentFeeOptionsForDeadline } from "../underlying-chain/PaymentFees";
+import { IBlockChainWallet } from "../underlying-chain/interfaces/IBlockChainWallet";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { EventScope, EventSubscription, timeoutEvent } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { BNish, formatBN, latestBlockTimestamp, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+const WITHDRAWAL_CONFIRMATION_POLL_MS = 1000;
+const PAYMENT_PROOF_POLL_MS = 1000;
+
+interface PlannedUnderlyingWithdrawal {
+    targetAddress: string;
+    amount: BN;
+}
+
+export class AgentBot extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public ownerAddress: string,   // owner's work address
+        public wallet: IBlockChainWallet,
+        agentVaults: string[] = [],
+    ) {
+        super(runner, state);
+        for (const agentVault of agentVaults) {
+            this.addAgentVault(agentVault);
+        }
+    }
+
+    eventSubscriptions = new Map<string, EventSubscription[]>();            // agentVault => subscriptions
+    handshakeMinterAddresses = new Map<string, string[]>();                 // collateralReservationId => minter underlying addresses
+    plannedWithdrawals = new Map<string, PlannedUnderlyingWithdrawal>();    // agentVault => withdrawal to perform when announced
+
+    get agentVaults() {
+        return Array.from(this.eventSubscriptions.keys());
+    }
+
+    addAgentVault(agentVault: string) {
+        if (this.eventSubscriptions.has(agentVault)) return;
+        this.eventSubscriptions.set(agentVault, [
+            this.assetManagerEvent('HandshakeRequired', { agentVault }).subscribe(args => this.handleHandshakeRequired(args)),
+            this.assetManagerEvent('CollateralReserved', { agentVault }).subscribe(args => this.handleCollateralReserved(args)),
+            this.assetManagerEvent('RedemptionRequested', { agentVault }).subscribe(args => this.handleRedemptionRequested(args)),
+            this.assetManagerEvent('UnderlyingWithdrawalAnnounced', { agentVault }).subscribe(args => this.handleUnderlyingWithdrawalAnnounced(args)),
+        ]);
+    }
+
+    removeAgentVault(agentVault: string) {
+        for (const subscription of this.eventSubscriptions.get(agentVault) ?? []) {
+            subscription.unsubscribe();
+        }
+        this.eventSubscriptions.delete(agentVault);
+        this.plannedWithdrawals.delete(agentVault);
+    }
+
+    // handshake
+
+    /**
+     * Decide whether to accept the minting request that requires handshake.
+     * By default all requests are approved; override to check the minter's identity.
+     */
+    approveHandshake(args: EvmEventArgs<HandshakeRequired>): boolean | Promise<boolean> {
+        return true;
+    }
+
+    handleHandshakeRequired(args: EvmEventArgs<HandshakeRequired>): void {
+        this.runner.startThread(async (scope) => {
+            const approved = await this.approveHandshake(args);
+            if (approved) {
+                this.handshakeMinterAddresses.set(String(args.collateralReservationId), args.minterUnderlyingAddresses);
+                this.log(`Agent ${this.formatAddress(args.agentVault)}: approving collateral reservation ${args.collateralReservationId}`);
+                await this.context.assetManager.approveCollateralReservation(args.collateralReservationId, { from: this.ownerAddress })
+                    .catch(e => scope.exitOnExpectedError(e, ["handshake not required", "invalid crt id"]));
+            } else {
+                this.log(`Agent ${this.formatAddress(args.agentVault)}: rejecting collateral reservation ${args.collateralReservationId}`);
+                await this.context.assetManager.rejectCollateralReservation(args.collateralReservationId, { from: this.ownerAddress })
+                    .catch(e => scope.exitOnExpectedError(e, ["handshake not required", "invalid crt id"]));
+            }
+        });
+    }
+
+    // minting
+
+    handleCollateralReserved(args: EvmEventArgs<CollateralReserved>): void {
+        const crId = String(args.collateralReservationId);
+        const minterAddresses = this.handshakeMinterAddresses.get(crId);
+        this.handshakeMinterAddresses.delete(crId);
+        this.runner.startThread(async (scope) => {
+            const agent = this.getAgent(scope, args.agentVault);
+            // remember the minting payment, if it arrives
+            const payments: ITransaction[] = [];
+            this.chainEvents.transactionEvent({ reference: args.paymentReference, to: agent.underlyingAddressString })
+                .subscribeIn(scope, transaction => payments.push(transaction));
+            // normally the minter executes minting; the agent only acts if the minting is still open after the payment deadline
+            const event = await Promise.race([
+                this.assetManagerEvent('MintingExecuted', { collateralReservationId: args.collateralReservationId }).qualified('executed').wait(scope),
+                this.waitForPaymentDeadline(scope, toBN(args.lastUnderlyingBlock), toBN(args.lastUnderlyingTimestamp)).then(() => ({ name: 'deadline' as const })),
+            ]);
+            if (event.name === 'executed') return;
+            if (payments.length > 0) {
+                await this.executeMinting(scope, agent, args, payments[0]);
+            } else {
+                await this.mintingPaymentDefault(scope, agent, args, minterAddresses);
+            }
+        });
+    }
+
+    private async executeMinting(scope: EventScope, agent: TrackedAgentState, args: EvmEventArgs<CollateralReserved>, payment: ITransaction) {
+        this.log(`Agent ${this.formatAddress(agent.address)}: executing minting ${args.collateralReservationId}`);
+        const proof = await this.context.attestationProvider.provePayment(payment.hash, payment.inputs[0][0], agent.underlyingAddressString);
+        await this.context.assetManager.executeMinting(proof, args.collateralReservationId, { from: this.ownerAddress })
+            .catch(e => scope.exitOnExpectedError(e, ["invalid crt id"]));
+    }
+
+    private async mintingPaymentDefault(scope: EventScope, agent: TrackedAgentState, args: EvmEventArgs<CollateralReserved>, minterAddresses?: string[]) {
+        this.log(`Agent ${this.formatAddress(agent.address)}: minting payment default for ${args.collateralReservationId}`);
+        const sourceAddressesRoot = minterAddresses ? AttestationHelper.merkleRootOfAddresses(minterAddresses) : undefined;
+        const proof = await this.context.attestationProvider.proveReferencedPaymentNonexistence(
+            agent.underlyingAddressString,
+            args.paymentReference,
+            toBN(args.valueUBA).add(toBN(args.feeUBA)),
+            Number(args.firstUnderlyingBlock),
+            Number(args.lastUnderlyingBlock),
+            Number(args.lastUnderlyingTimestamp),
+            sourceAddressesRoot);
+        await this.context.assetManager.mintingPaymentDefault(proof, args.collateralReservationId, { from: this.ownerAddress })
+            .catch(e => scope.exitOnExpectedError(e, ["invalid crt id"]));
+    }
+
+    // redemption
+
+    handleRedemptionRequested(args: EvmEventArgs<RedemptionRequested>): void {
+        this.runner.startThread(async (scope) => {
+            const agent = this.getAgent(scope, args.agentVault);
+            const [txHash, proof] = await this.payRedemption(scope, agent, args);
+            // check the proof before confirming, so that the reason is logged instead of an opaque revert
+            const validation = validateRedemptionPayment(args, proof, { agentUnderlyingAddress: agent.underlyingAddressString });
+            const action = redemptionPaymentAction(validation);
+            if (action === RedemptionPaymentAction.EXPECT_DEFAULT) {
+                this.log(`Agent ${this.formatAddress(agent.address)}: cannot confirm redemption ${args.requestId} payment ${txHash}: ${validation.revertMessage}`);
+                scope.exit();
+            }
+            if (action === RedemptionPaymentAction.CONFIRM_FAILURE) {
+                this.log(`Agent ${this.formatAddress(agent.address)}: redemption ${args.requestId} payment ${txHash} failed: ${validation.failureReason}, confirming failure (redemption will default)`);
+            }
+            await this.context.assetManager.confirmRedemptionPayment(proof, args.requestId, { from: this.ownerAddress })
+                .catch(e => scope.exitOnExpectedError(e, ["invalid request id"]));
+        });
+    }
+
+    private async payRedemption(scope: EventScope, agent: TrackedAgentState, args: EvmEventArgs<RedemptionRequested>) {
+        const paymentAmount = toBN(args.valueUBA).sub(toBN(args.feeUBA));
+        this.log(`Agent ${this.formatAddress(agent.address)}: paying redemption ${args.requestId} amount=${formatBN(paymentAmount)} to ${args.paymentAddress}`);
+        // choose the fee so that the payment is mined before the redemption payment deadline
+        const feeOptions = await paymentFeeOptionsForDeadline(this.context.chain, args.lastUnderlyingBlock, args.lastUnderlyingTimestamp);
+        const txHash = await this.wallet.addTransaction(agent.underlyingAddressString, args.paymentAddress, paymentAmount, args.paymentReference, feeOptions);
+        const transaction = await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, txHash);
+        if (transaction == null) {
+            this.log(`Agent ${this.formatAddress(agent.address)}: redemption ${args.requestId} payment ${txHash} not found`);
+            scope.exit();
+        }
+        const proof = await this.obtainPaymentProof(scope, txHash, agent.underlyingAddressString, args.paymentAddress);
+        return [txHash, proof] as const;
+    }
+
+    // the payment is sent only once - a second payment with the same reference would be a double payment, so only the proof is requested again
+    private async obtainPaymentProof(scope: EventScope, txHash: string, sourceAddress: string, receivingAddress: string) {
+        while (true) {
+            const proof = await this.context.attestationProvider.provePayment(txHash, sourceAddress, receivingAddress)
+                .catch(e => scope.handleExpectedErrors(e, { continue: ["not proved"] }));
+            if (proof != null) return proof;
+            await timeoutEvent(this.state.eventQueue, PAYMENT_PROOF_POLL_MS).wait(scope);
+        }
+    }
+
+    // underlying withdrawal
+
+    /**
+     * Announce underlying withdrawal; the payment and confirmation are performed when the announcement event arrives.
+     */
+    async withdrawUnderlying(agentVault: string, targetAddress: string, amount: BNish) {
+        this.plannedWithdrawals.set(agentVault, { targetAddress, amount: toBN(amount) });
+        await this.context.assetManager.announceUnderlyingWithdrawal(agentVault, { from: this.ownerAddress });
+    }
+
+    handleUnderlyingWithdrawalAnnounced(args: EvmEventArgs<UnderlyingWithdrawalAnnounced>): void {
+        const withdrawal = this.plannedWithdrawals.get(args.agentVault);
+        if (withdrawal == null) return;     // announced outside of the bot
+        this.plannedWithdrawals.delete(args.agentVault);
+        this.runner.startThread(async (scope) => {
+            const agent = this.getAgent(scope, args.agentVault);
+            this.log(`Agent ${this.formatAddress(agent.address)}: withdrawing ${formatBN(withdrawal.amount)} to ${withdrawal.targetAddress}`);
+            const txHash = await this.wallet.addTransaction(agent.underlyingAddressString, withdrawal.targetAddress, withdrawal.amount, args.paymentReference);
+            const transaction = await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, txHash);
+            if (transaction == null) {
+                this.log(`Agent ${this.formatAddress(agent.address)}: withdrawal payment ${txHash} not found`);
+                scope.exit();
+            }
+            const proof = await this.context.attestationProvider.provePayment(txHash, agent.underlyingAddressString, null);
+            // confirmation is only allowed after announcedUnderlyingConfirmationMinSeconds
+            const announcedAt = Number((await web3.eth.getBlock(args.$event.blockNumber)).timestamp);
+            const confirmationAllowedAt = announcedAt + Number(this.state.settings.announcedUnderlyingConfirmationMinSeconds);
+            while (await latestBlockTimestamp() < confirmationAllowedAt) {
+                await timeoutEvent(this.state.eventQueue, WITHDRAWAL_CONFIRMATION_POLL_MS).wait(scope);
+            }
+            await this.context.assetManager.confirmUnderlyingWithdrawal(proof, agent.address, { from: this.ownerAddress })
+                .catch(e => scope.exitOnExpectedError(e, ["no active announcement"]));
+        });
+    }
+
+    // utils
+
+    private getAgent(scope: EventScope, agentVault: string) {
+        return this.state.getAgent(agentVault) ?? scope.exit();
+    }
+
+    /**
+     * Wait until the underlying chain passes both payment deadlines and the overflow block is finalized,
+     * so that non-payment proof is available.
+     */
+    private async waitForPaymentDeadline(scope: EventScope, lastBlock: BN, lastTimestamp: BN) {
+        let height = lastBlock.toNumber() + 1;
+        while (true) {
+            const blockId = await this.chainEvents.blockHeightReachedEvent(height).wait(scope);
+            const block = await this.context.chain.getBlockAt(height);
+            if (block != null && block.timestamp > lastTimestamp.toNumber()) break;
+            height = Math.max(height, blockId.number) + 1;
+        }
+        await this.chainEvents.blockHeightReachedEvent(height + this.context.chain.finalizationBlocks).wait(scope);
+    }
+}
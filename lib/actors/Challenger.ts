@@ -1,27 +1,87 @@
-import { RedemptionRequested } from "../../typechain-truffle/IIAssetManager";
+import { RedemptionRequested, UnderlyingBalanceToppedUp } from "../../typechain-truffle/IIAssetManager";
 import { AgentStatus } from "../fasset/AssetManagerTypes";
 import { PaymentReference } from "../fasset/PaymentReference";
+import { IPersistentActor } from "../state/StateCheckpoint";
+import { TokenPrice } from "../state/TokenPrice";
 import { TrackedAgentState } from "../state/TrackedAgentState";
 import { TrackedState } from "../state/TrackedState";
 import { AttestationHelperError } from "../underlying-chain/AttestationHelper";
-import { ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { ITransaction, TxInputOutput } from "../underlying-chain/interfaces/IBlockChain";
+import { EvmEvent } from "../utils/events/common";
 import { EvmEventArgs } from "../utils/events/IEvmEvents";
-import { EventScope } from "../utils/events/ScopedEvents";
+import { EventScope, qualifiedEvent, timeoutEvent, TriggerableEvent } from "../utils/events/ScopedEvents";
 import { ScopedRunner } from "../utils/events/ScopedRunner";
-import { formatBN, getOrCreate, sleep, sumBN, toBN } from "../utils/helpers";
+import { BN_ZERO, BNish, ErrorFilter, errorIncluded, exp10, formatBN, getOrCreate, MAX_BIPS, minBN, sleep, sumBN, toBN } from "../utils/helpers";
 import { ActorBase } from "./ActorBase";
 
 const MAX_NEGATIVE_BALANCE_REPORT = 50;  // maximum number of transactions to report in freeBalanceNegativeChallenge to avoid breaking block gas limit
+const CHALLENGE_GAS_PER_PROOF = 100_000;  // additional gas for verifying each transaction proof
 
 interface ActiveRedemption {
     agentAddress: string;
     amount: BN;
+    paymentAddress: string;
     // underlying block and timestamp after which the redemption payment is invalid and can be challenged
     validUntilBlock: BN;
     validUntilTimestamp: BN;
 };
 
-export class Challenger extends ActorBase {
+export enum ViolationRule {
+    ILLEGAL_PAYMENT = 'illegal payment',                // payment from agent's addresses that is neither a redemption nor an announced withdrawal
+    DOUBLE_PAYMENT = 'double payment',                  // two payments with the same payment reference
+    NEGATIVE_FREE_BALANCE = 'negative free balance',    // unconfirmed payments spend more than the agent's free underlying balance
+}
+
+export interface AgentViolation {
+    rule: ViolationRule;
+    transactionHashes: string[];
+    sourceAddresses: string[];      // agent-controlled addresses spent from
+    challengeable: boolean;         // false if the transactions don't spend from the agent's main underlying address, so the violation cannot be proved on chain
+    explanation: string;
+}
+
+export interface AgentEvidenceReport {
+    agentVault: string;
+    underlyingAddress: string;
+    watchedAddresses: string[];
+    violations: AgentViolation[];
+}
+
+export enum ChallengeDecision {
+    SUBMIT = 'submit',
+    DELAY = 'delay',    // wait for price change and estimate again
+    SKIP = 'skip',
+}
+
+export interface ChallengeEstimate {
+    rule: ViolationRule;
+    rewardVaultCollateralWei: BN;   // expected payout from the agent's vault (capped by the vault balance)
+    costNatWei: BN;                 // expected gas cost
+    rewardUBA: BN;                  // reward and cost converted to UBA at tracked prices, for comparison
+    costUBA: BN;
+    profitUBA: BN;
+}
+
+export interface ChallengeRaceStatistics {
+    won: number;        // our challenge transaction succeeded
+    lost: number;       // our challenge transaction reverted, because another challenger was first
+    cancelled: number;  // challenge abandoned before submission, because another challenger succeeded
+}
+
+function violationKey(violation: AgentViolation) {
+    return `${violation.rule}:${[...violation.transactionHashes].sort().join(",")}`;
+}
+
+// serializable challenger data, as stored in checkpoints
+export interface ChallengerStateData {
+    activeRedemptions: Array<[paymentReference: string, redemption: { agentAddress: string, amount: BNish, paymentAddress?: string, validUntilBlock: BNish, validUntilTimestamp: BNish }]>;
+    transactionForPaymentReference: Array<[paymentReference: string, txHash: string]>;
+    unconfirmedTransactions: Array<[agentVault: string, transactions: ITransaction[]]>;
+    watchedAddresses?: Array<[underlyingAddress: string, agentVault: string]>;
+    evidence?: Array<[agentVault: string, violations: AgentViolation[]]>;
+}
+
+export class Challenger extends ActorBase implements IPersistentActor<ChallengerStateData> {
     constructor(
         runner: ScopedRunner,
         state: TrackedState,
@@ -35,29 +95,83 @@ export class Challenger extends ActorBase {
     transactionForPaymentReference = new Map<string, string>();                     // paymentReference => transaction hash
     unconfirmedTransactions = new Map<string, Map<string, ITransaction>>();         // agentVaultAddress => (txHash => transaction)
     challengedAgents = new Set<string>();
+    watchedAddresses = new Map<string, string>();                                   // agent-controlled underlying address (besides the main one) => agentVaultAddress
+    evidence = new Map<string, Map<string, AgentViolation>>();                      // agentVaultAddress => (rule and transactions => violation)
+
+    // challenge profitability settings
+    challengeGasEstimates: Record<ViolationRule, number> = {
+        [ViolationRule.ILLEGAL_PAYMENT]: 500_000,
+        [ViolationRule.DOUBLE_PAYMENT]: 600_000,
+        [ViolationRule.NEGATIVE_FREE_BALANCE]: 500_000,
+    };
+    minChallengeProfitUBA: BN = BN_ZERO;
+    maxUnprofitableChallengeDelays = 3;     // number of price updates to wait for before skipping an unprofitable challenge
+    maxPriceUpdateWaitMS = 600_000;         // if there is no price update in this time, an unprofitable challenge is skipped
+
+    // challenge races against other challengers
+    agentChallenged = new TriggerableEvent<{ agentVault: string, $event: EvmEvent }>(this.state.eventQueue);
+    challengeRaceStats: ChallengeRaceStatistics = { won: 0, lost: 0, cancelled: 0 };
+    ownChallengeTransactions = new Set<string>();   // hashes of our successful challenge transactions
 
     registerForEvents() {
         this.chainEvents.transactionEvent().subscribe(transaction => this.handleUnderlyingTransaction(transaction));
+        this.chainEvents.transactionRevertedEvent().subscribe(transaction => this.handleUnderlyingTransactionReverted(transaction));
         this.assetManagerEvent('RedemptionRequested').subscribe(args => this.handleRedemptionRequested(args));
         this.assetManagerEvent('RedemptionPerformed').subscribe(args => this.handleRedemptionFinished(args));
         this.assetManagerEvent('RedemptionPaymentBlocked').subscribe(args => this.handleRedemptionFinished(args));
         this.assetManagerEvent('RedemptionPaymentFailed').subscribe(args => this.handleRedemptionFinished(args));
         this.assetManagerEvent('UnderlyingWithdrawalConfirmed').subscribe(args => this.handleTransactionConfirmed(args.agentVault, args.transactionHash));
+        this.assetManagerEvent('UnderlyingBalanceToppedUp').subscribe(args => this.handleUnderlyingBalanceToppedUp(args));
+        // successful challenges (by anybody) - the agent is in full liquidation, so other challenges for it would revert
+        this.assetManagerEvent('IllegalPaymentConfirmed').subscribe(args => this.agentChallenged.trigger(args));
+        this.assetManagerEvent('DuplicatePaymentConfirmed').subscribe(args => this.agentChallenged.trigger(args));
+        // (negative free balance challenges have no own event - `FullLiquidationStarted` and `UnderlyingBalanceTooLow` are also emitted without a challenge)
     }
 
     handleUnderlyingTransaction(transaction: ITransaction): void {
+        // group inputs by agent, so that a transaction spending from several addresses of the same agent is handled once
+        const agentInputAddresses = new Map<TrackedAgentState, string[]>();
         for (const [address, amount] of transaction.inputs) {
             this.log(`Challenger ${this.formatAddress(this.address)}: Detected transaction of ${formatBN(amount)} from ${address}`);
-            const agent = this.state.agentsByUnderlying.get(address);
+            const agent = this.agentForUnderlyingAddress(address);
             if (agent == null) continue;
-            // add to list of transactions
-            this.addUnconfirmedTransaction(agent, transaction);
-            // illegal transaction challenge
-            this.checkForIllegalTransaction(transaction, agent);
-            // double payment challenge
-            this.checkForDoublePayment(transaction, agent);
-            // negative balance challenge
-            this.checkForNegativeFreeBalance(agent);
+            getOrCreate(agentInputAddresses, agent, () => []).push(address);
+        }
+        for (const [agent, addresses] of agentInputAddresses) {
+            if (addresses.includes(agent.underlyingAddressString)) {
+                // add to list of transactions
+                this.addUnconfirmedTransaction(agent, transaction);
+                // illegal transaction challenge
+                this.checkForIllegalTransaction(transaction, agent);
+                // double payment challenge
+                this.checkForDoublePayment(transaction, agent);
+                // negative balance challenge
+                this.checkForNegativeFreeBalance(agent);
+                // change of redemption payments returns to agent-controlled addresses
+                this.learnChangeAddresses(transaction, agent);
+            } else {
+                // only watched addresses spent - the contract cannot verify these, so they can only be reported
+                this.checkForWatchedAddressWithdrawal(transaction, agent, addresses);
+            }
+        }
+    }
+
+    handleUnderlyingTransactionReverted(transaction: ITransaction): void {
+        // pending challenges using this transaction are withdrawn in waitForDecreasingBalanceProof
+        const agents = new Set<TrackedAgentState>();
+        for (const [address, _] of transaction.inputs) {
+            const agent = this.agentForUnderlyingAddress(address);
+            if (agent == null) continue;
+            this.log(`Challenger ${this.formatAddress(this.address)}: Transaction ${transaction.hash} from ${address} reverted by reorg`);
+            agents.add(agent);
+        }
+        for (const agent of agents) {
+            this.deleteUnconfirmedTransaction(agent.address, transaction.hash);
+            if (transaction.reference != null && this.transactionForPaymentReference.get(transaction.reference) === transaction.hash) {
+                this.transactionForPaymentReference.delete(transaction.reference);
+            }
+            // if the transaction is included again in the new fork, the violations are detected again
+            this.deleteViolations(agent.address, transaction.hash);
         }
     }
 
@@ -68,10 +182,21 @@ export class Challenger extends ActorBase {
         if (agent) this.checkForNegativeFreeBalance(agent);
     }
 
+    handleUnderlyingBalanceToppedUp(args: EvmEventArgs<UnderlyingBalanceToppedUp>): void {
+        // top-ups are typically made from the agent's own (e.g. change) addresses
+        this.runner.startThread(async () => {
+            const transaction = await this.context.chain.getTransaction(args.transactionHash);
+            for (const [address, _] of transaction?.inputs ?? []) {
+                this.watchAddress(args.agentVault, address);
+            }
+        });
+    }
+
     handleRedemptionRequested(args: EvmEventArgs<RedemptionRequested>): void {
         this.activeRedemptions.set(args.paymentReference, {
             agentAddress: args.agentVault,
             amount: toBN(args.valueUBA),
+            paymentAddress: args.paymentAddress,
             // see Challenges.sol for this calculation
             validUntilBlock: toBN(args.lastUnderlyingBlock).add(toBN(this.state.settings.underlyingBlocksForPayment)),
             validUntilTimestamp: toBN(args.lastUnderlyingTimestamp).add(toBN(this.state.settings.underlyingSecondsForPayment)),
@@ -95,18 +220,28 @@ export class Challenger extends ActorBase {
         // if the challenger starts tracking later, activeRedemptions might not hold all active redemeptions,
         // but that just means there will be a few unnecessary illegal transaction challenges, which is perfectly safe
         if (!transactionValid && agent.status !== AgentStatus.FULL_LIQUIDATION) {
+            this.addViolation(agent, {
+                rule: ViolationRule.ILLEGAL_PAYMENT,
+                transactionHashes: [transaction.hash],
+                sourceAddresses: [agent.underlyingAddressString],
+                challengeable: true,
+                explanation: this.illegalReferenceExplanation(transaction.reference),
+            });
             this.runner.startThread((scope) => this.illegalTransactionChallenge(scope, transaction, agent));
         }
     }
 
     async illegalTransactionChallenge(scope: EventScope, transaction: ITransaction, agent: TrackedAgentState) {
         this.log(`Challenger ${this.formatAddress(this.address)}: ISSUE illegalTransactionChallenge for ${this.formatAddress(agent.address)}`);
+        await this.unlessChallengedByOthers(scope, agent, this.waitForProfitableChallenge(scope, agent, ViolationRule.ILLEGAL_PAYMENT, 1));
         await this.singleChallengePerAgent(agent, async () => {
-            const proof = await this.waitForDecreasingBalanceProof(scope, transaction.hash, agent.underlyingAddressString);
+            const proof = await this.unlessChallengedByOthers(scope, agent,
+                this.waitForDecreasingBalanceProof(scope, transaction.hash, agent.underlyingAddressString));
             // due to async nature of challenging (and the fact that challenger might start tracking agent later), there may be some false challenges which will be rejected
             // this is perfectly safe for the system, but the errors must be caught
-            await this.context.assetManager.illegalPaymentChallenge(proof, agent.address, { from: this.address })
-                .catch(e => scope.exitOnExpectedError(e, ['chlg: already liquidating', 'chlg: transaction confirmed', 'matching redemption active', 'matching ongoing announced pmt']));
+            const res = await this.context.assetManager.illegalPaymentChallenge(proof, agent.address, { from: this.address })
+                .catch(e => this.handleChallengeError(scope, e, ['chlg: already liquidating'], ['chlg: transaction confirmed', 'matching redemption active', 'matching ongoing announced pmt']));
+            this.challengeWon(agent, ViolationRule.ILLEGAL_PAYMENT, res.tx);
         });
     }
 
@@ -116,6 +251,13 @@ export class Challenger extends ActorBase {
         if (!PaymentReference.isValid(transaction.reference)) return;   // handled by illegal payment challenge
         const existingHash = this.transactionForPaymentReference.get(transaction.reference);
         if (existingHash && existingHash != transaction.hash) {
+            this.addViolation(agent, {
+                rule: ViolationRule.DOUBLE_PAYMENT,
+                transactionHashes: [existingHash, transaction.hash],
+                sourceAddresses: [agent.underlyingAddressString],
+                challengeable: true,
+                explanation: `both transactions pay with reference ${transaction.reference}`,
+            });
             this.runner.startThread((scope) => this.doublePaymentChallenge(scope, transaction.hash, existingHash, agent));
         } else {
             this.transactionForPaymentReference.set(transaction.reference, transaction.hash);
@@ -124,14 +266,16 @@ export class Challenger extends ActorBase {
 
     async doublePaymentChallenge(scope: EventScope, tx1hash: string, tx2hash: string, agent: TrackedAgentState) {
         this.log(`Challenger ${this.formatAddress(this.address)}: ISSUE doublePaymentChallenge for ${this.formatAddress(agent.address)}`);
+        await this.unlessChallengedByOthers(scope, agent, this.waitForProfitableChallenge(scope, agent, ViolationRule.DOUBLE_PAYMENT, 2));
         await this.singleChallengePerAgent(agent, async () => {
-            const [proof1, proof2] = await Promise.all([
+            const [proof1, proof2] = await this.unlessChallengedByOthers(scope, agent, Promise.all([
                 this.waitForDecreasingBalanceProof(scope, tx1hash, agent.underlyingAddressString),
                 this.waitForDecreasingBalanceProof(scope, tx2hash, agent.underlyingAddressString),
-            ]);
+            ]));
             // due to async nature of challenging there may be some false challenges which will be rejected
-            await this.context.assetManager.doublePaymentChallenge(proof1, proof2, agent.address, { from: this.address })
-                .catch(e => scope.exitOnExpectedError(e, ['chlg dbl: already liquidating']));
+            const res = await this.context.assetManager.doublePaymentChallenge(proof1, proof2, agent.address, { from: this.address })
+                .catch(e => this.handleChallengeError(scope, e, ['chlg dbl: already liquidating'], []));
+            this.challengeWon(agent, ViolationRule.DOUBLE_PAYMENT, res.tx);
         });
     }
 
@@ -162,21 +306,199 @@ export class Challenger extends ActorBase {
         const totalSpent = sumBN(transactions, tx => tx.spent);
         if (totalSpent.gt(agent.freeUnderlyingBalanceUBA)) {
             const transactionHashes = transactions.map(tx => tx.txHash);
+            this.addViolation(agent, {
+                rule: ViolationRule.NEGATIVE_FREE_BALANCE,
+                transactionHashes,
+                sourceAddresses: [agent.underlyingAddressString],
+                challengeable: true,
+                explanation: `transactions spend ${formatBN(totalSpent)} above redemption values, but free underlying balance is ${formatBN(agent.freeUnderlyingBalanceUBA)}`,
+            });
             this.runner.startThread((scope) => this.freeBalanceNegativeChallenge(scope, transactionHashes, agent));
         }
     }
 
     async freeBalanceNegativeChallenge(scope: EventScope, transactionHashes: string[], agent: TrackedAgentState) {
         this.log(`Challenger ${this.formatAddress(this.address)}: ISSUE freeBalanceNegativeChallenge for ${this.formatAddress(agent.address)}`);
+        await this.unlessChallengedByOthers(scope, agent,
+            this.waitForProfitableChallenge(scope, agent, ViolationRule.NEGATIVE_FREE_BALANCE, transactionHashes.length));
         await this.singleChallengePerAgent(agent, async () => {
-            const proofs = await Promise.all(transactionHashes.map(txHash =>
-                this.waitForDecreasingBalanceProof(scope, txHash, agent.underlyingAddressString)));
+            const proofs = await this.unlessChallengedByOthers(scope, agent, Promise.all(transactionHashes.map(txHash =>
+                this.waitForDecreasingBalanceProof(scope, txHash, agent.underlyingAddressString))));
             // due to async nature of challenging there may be some false challenges which will be rejected
-            await this.context.assetManager.freeBalanceNegativeChallenge(proofs, agent.address, { from: this.address })
-                .catch(e => scope.exitOnExpectedError(e, ['mult chlg: already liquidating', 'mult chlg: enough balance']));
+            const res = await this.context.assetManager.freeBalanceNegativeChallenge(proofs, agent.address, { from: this.address })
+                .catch(e => this.handleChallengeError(scope, e, ['mult chlg: already liquidating'], ['mult chlg: enough balance']));
+            this.challengeWon(agent, ViolationRule.NEGATIVE_FREE_BALANCE, res.tx);
         });
     }
 
+    // competing challengers
+
+    /**
+     * Wait for `promise` (e.g. proofs), but exit the scope if somebody else successfully challenges the agent in the meantime.
+     */
+    async unlessChallengedByOthers<T>(scope: EventScope, agent: TrackedAgentState, promise: Promise<T>): Promise<T> {
+        const event = await Promise.race([
+            promise.then(result => qualifiedEvent('done', result)),
+            this.agentChallenged.filter(args => args.agentVault === agent.address).qualified('challenged').wait(scope),
+        ]);
+        if (event.name === 'done') return event.args;
+        if (!this.ownChallengeTransactions.has(event.args.$event.transactionHash)) {
+            ++this.challengeRaceStats.cancelled;
+            this.log(`Challenger ${this.formatAddress(this.address)}: agent ${this.formatAddress(agent.address)} already challenged by another challenger, cancelling`);
+        }
+        scope.exit();
+    }
+
+    challengeWon(agent: TrackedAgentState, rule: ViolationRule, txHash: string) {
+        ++this.challengeRaceStats.won;
+        this.ownChallengeTransactions.add(txHash);
+        this.log(`Challenger ${this.formatAddress(this.address)}: ${rule} challenge for ${this.formatAddress(agent.address)} succeeded`);
+    }
+
+    handleChallengeError(scope: EventScope, error: unknown, lostRaceErrors: ErrorFilter[], otherExpectedErrors: ErrorFilter[]): never {
+        if (errorIncluded(error, lostRaceErrors)) {
+            ++this.challengeRaceStats.lost;
+            this.log(`Challenger ${this.formatAddress(this.address)}: lost challenge race`);
+        }
+        scope.exitOnExpectedError(error, [...lostRaceErrors, ...otherExpectedErrors]);
+    }
+
+    // profitability
+
+    /**
+     * Estimate the reward (see Challenges._liquidateAndRewardChallenger) and gas cost of a challenge at the tracked prices.
+     */
+    async estimateChallenge(agent: TrackedAgentState, rule: ViolationRule, proofCount: number): Promise<ChallengeEstimate> {
+        const settings = this.state.settings;
+        const vaultPrice = this.state.prices.get(agent.vaultCollateral);
+        const natPrice = this.state.prices.get(agent.poolWNatCollateral);
+        const rewardFromBackingWei = vaultPrice.convertUBAToTokenWei(agent.mintedUBA.mul(toBN(settings.paymentChallengeRewardBIPS)).divn(MAX_BIPS));
+        const rewardFromUSDWei = this.convertUSD5ToTokenWei(toBN(settings.paymentChallengeRewardUSD5), agent.vaultCollateral.decimals, vaultPrice.tokenPrice);
+        const rewardVaultCollateralWei = minBN(rewardFromBackingWei.add(rewardFromUSDWei), agent.totalVaultCollateralWei);
+        const gas = this.challengeGasEstimates[rule] + proofCount * CHALLENGE_GAS_PER_PROOF;
+        const costNatWei = toBN(await web3.eth.getGasPrice()).muln(gas);
+        const rewardUBA = vaultPrice.convertTokenWeiToUBA(rewardVaultCollateralWei);
+        const costUBA = natPrice.convertTokenWeiToUBA(costNatWei);
+        return { rule, rewardVaultCollateralWei, costNatWei, rewardUBA, costUBA, profitUBA: rewardUBA.sub(costUBA) };
+    }
+
+    challengeDecision(estimate: ChallengeEstimate, delays: number) {
+        if (estimate.profitUBA.gte(this.minChallengeProfitUBA)) return ChallengeDecision.SUBMIT;
+        return delays < this.maxUnprofitableChallengeDelays ? ChallengeDecision.DELAY : ChallengeDecision.SKIP;
+    }
+
+    /**
+     * Return when the challenge is profitable. While it is not, wait for price changes; exit the scope when there are too many delays
+     * or the prices don't change for `maxPriceUpdateWaitMS`.
+     */
+    async waitForProfitableChallenge(scope: EventScope, agent: TrackedAgentState, rule: ViolationRule, proofCount: number) {
+        for (let delays = 0; ; delays++) {
+            const estimate = await this.estimateChallenge(agent, rule, proofCount);
+            const decision = this.challengeDecision(estimate, delays);
+            this.log(`Challenger ${this.formatAddress(this.address)}: ${rule} challenge for ${this.formatAddress(agent.address)}: ` +
+                `reward=${formatBN(estimate.rewardVaultCollateralWei)} vault wei (${formatBN(estimate.rewardUBA)} UBA), ` +
+                `cost=${formatBN(estimate.costNatWei)} NAT wei (${formatBN(estimate.costUBA)} UBA), profit=${formatBN(estimate.profitUBA)} UBA, decision=${decision}`);
+            if (decision === ChallengeDecision.SUBMIT) return;
+            if (decision === ChallengeDecision.SKIP) scope.exit();
+            const event = await Promise.race([
+                this.state.pricesUpdated.qualified('prices').wait(scope),
+                timeoutEvent(this.state.eventQueue, this.maxPriceUpdateWaitMS).qualified('timeout').wait(scope),
+            ]);
+            if (event.name === 'timeout') {
+                this.log(`Challenger ${this.formatAddress(this.address)}: no price update for ${this.maxPriceUpdateWaitMS}ms, skipping ${rule} challenge for ${this.formatAddress(agent.address)}`);
+                scope.exit();
+            }
+        }
+    }
+
+    private convertUSD5ToTokenWei(amountUSD5: BN, tokenDecimals: BNish, tokenPrice: TokenPrice | undefined) {
+        // see Conversion.convertFromUSD5 - tokens without FTSO symbol are USD stablecoins
+        if (tokenPrice == null) return amountUSD5;
+        return amountUSD5.mul(exp10(toBN(tokenDecimals).add(tokenPrice.decimals).subn(5))).div(tokenPrice.price);
+    }
+
+    // watched addresses
+
+    watchAddress(agentVault: string, underlyingAddress: string) {
+        // another agent's main address cannot be controlled by this agent
+        if (this.state.agentsByUnderlying.has(underlyingAddress)) return;
+        if (this.watchedAddresses.get(underlyingAddress) === agentVault) return;
+        this.log(`Challenger ${this.formatAddress(this.address)}: watching address ${underlyingAddress} of ${this.formatAddress(agentVault)}`);
+        this.watchedAddresses.set(underlyingAddress, agentVault);
+    }
+
+    agentForUnderlyingAddress(underlyingAddress: string): TrackedAgentState | undefined {
+        const agent = this.state.agentsByUnderlying.get(underlyingAddress);
+        if (agent != null) return agent;
+        const agentVault = this.watchedAddresses.get(underlyingAddress);
+        return agentVault != null ? this.state.getAgent(agentVault) : undefined;
+    }
+
+    isAgentControlledAddress(agent: TrackedAgentState, underlyingAddress: string) {
+        return underlyingAddress === agent.underlyingAddressString || this.watchedAddresses.get(underlyingAddress) === agent.address;
+    }
+
+    learnChangeAddresses(transaction: ITransaction, agent: TrackedAgentState) {
+        if (!PaymentReference.isValid(transaction.reference) || !this.isValidRedemptionReference(agent, transaction.reference)) return;
+        const { paymentAddress } = this.activeRedemptions.get(transaction.reference)!;
+        if (!paymentAddress) return;
+        for (const [address, _] of transaction.outputs) {
+            if (address !== paymentAddress && address !== agent.underlyingAddressString) {
+                this.watchAddress(agent.address, address);
+            }
+        }
+    }
+
+    checkForWatchedAddressWithdrawal(transaction: ITransaction, agent: TrackedAgentState, addresses: string[]) {
+        if (PaymentReference.isValid(transaction.reference)
+            && (this.isValidRedemptionReference(agent, transaction.reference) || this.isValidAnnouncedPaymentReference(agent, transaction.reference))) return;
+        // moving funds between agent-controlled addresses (e.g. topping up the main address) is not a withdrawal
+        const withdrawn = transaction.outputs.reduce((total, [address, amount]) => this.isAgentControlledAddress(agent, address) ? total : total.add(toBN(amount)), BN_ZERO);
+        if (withdrawn.isZero()) return;
+        this.addViolation(agent, {
+            rule: ViolationRule.ILLEGAL_PAYMENT,
+            transactionHashes: [transaction.hash],
+            sourceAddresses: addresses,
+            challengeable: false,
+            explanation: `${formatBN(withdrawn)} withdrawn from watched address(es) ${addresses.join(", ")}, ${this.illegalReferenceExplanation(transaction.reference)}`,
+        });
+    }
+
+    // evidence
+
+    evidenceReport(agentVault: string): AgentEvidenceReport {
+        const agent = this.state.getAgent(agentVault);
+        return {
+            agentVault: agentVault,
+            underlyingAddress: agent?.underlyingAddressString ?? "",
+            watchedAddresses: Array.from(this.watchedAddresses.entries()).filter(([_, vault]) => vault === agentVault).map(([address, _]) => address),
+            violations: Array.from(this.evidence.get(agentVault)?.values() ?? []),
+        };
+    }
+
+    addViolation(agent: TrackedAgentState, violation: AgentViolation) {
+        const key = violationKey(violation);
+        const agentViolations = getOrCreate(this.evidence, agent.address, () => new Map<string, AgentViolation>());
+        if (agentViolations.has(key)) return;
+        this.log(`Challenger ${this.formatAddress(this.address)}: ${violation.rule} by ${this.formatAddress(agent.address)} - ${violation.explanation}`);
+        agentViolations.set(key, violation);
+    }
+
+    deleteViolations(agentVault: string, transactionHash: string) {
+        const agentViolations = this.evidence.get(agentVault);
+        if (agentViolations == null) return;
+        for (const [key, violation] of agentViolations) {
+            if (violation.transactionHashes.includes(transactionHash)) {
+                agentViolations.delete(key);
+            }
+        }
+        if (agentViolations.size === 0) this.evidence.delete(agentVault);
+    }
+
+    illegalReferenceExplanation(reference: string | null) {
+        return reference == null ? "no payment reference" : `reference ${reference} matches no active redemption or announced withdrawal`;
+    }
+
     // utils
 
     isValidRedemptionReference(agent: TrackedAgentState, reference: string) {
@@ -202,11 +524,64 @@ export class Challenger extends ActorBase {
     }
 
     async waitForDecreasingBalanceProof(scope: EventScope, txHash: string, underlyingAddressString: string) {
-        await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, txHash);
+        const transaction = await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, txHash);
+        if (transaction == null) {
+            // the transaction vanished in a reorg - the challenge would fail, so withdraw it
+            this.log(`Challenger ${this.formatAddress(this.address)}: withdrawing challenge, transaction ${txHash} is no longer on chain`);
+            scope.exit();
+        }
         return await this.context.attestationProvider.proveBalanceDecreasingTransaction(txHash, underlyingAddressString)
             .catch(e => scope.exitOnExpectedError(e, [AttestationHelperError]));
     }
 
+    // persistence
+
+    get persistenceKey() {
+        return `Challenger ${this.address}`;
+    }
+
+    saveState(): ChallengerStateData {
+        return {
+            activeRedemptions: Array.from(this.activeRedemptions.entries()),
+            transactionForPaymentReference: Array.from(this.transactionForPaymentReference.entries()),
+            unconfirmedTransactions: Array.from(this.unconfirmedTransactions.entries(), ([agentVault, transactions]): [string, ITransaction[]] => [agentVault, Array.from(transactions.values())]),
+            watchedAddresses: Array.from(this.watchedAddresses.entries()),
+            evidence: Array.from(this.evidence.entries(), ([agentVault, violations]): [string, AgentViolation[]] => [agentVault, Array.from(violations.values())]),
+        };
+    }
+
+    restoreState(data: ChallengerStateData) {
+        // challengedAgents is not restored - it only tracks challenges in progress
+        for (const [reference, redemption] of data.activeRedemptions) {
+            this.activeRedemptions.set(reference, {
+                agentAddress: redemption.agentAddress,
+                amount: toBN(redemption.amount),
+                paymentAddress: redemption.paymentAddress ?? "",     // missing in older checkpoints - then no change addresses are learned
+                validUntilBlock: toBN(redemption.validUntilBlock),
+                validUntilTimestamp: toBN(redemption.validUntilTimestamp),
+            });
+        }
+        for (const [reference, txHash] of data.transactionForPaymentReference) {
+            this.transactionForPaymentReference.set(reference, txHash);
+        }
+        const toTxInputOutput = ([address, amount]: TxInputOutput): TxInputOutput => [address, toBN(amount)];
+        for (const [agentVault, transactions] of data.unconfirmedTransactions) {
+            const agentTransactions = getOrCreate(this.unconfirmedTransactions, agentVault, () => new Map<string, ITransaction>());
+            for (const transaction of transactions) {
+                agentTransactions.set(transaction.hash, { ...transaction, inputs: transaction.inputs.map(toTxInputOutput), outputs: transaction.outputs.map(toTxInputOutput) });
+            }
+        }
+        for (const [underlyingAddress, agentVault] of data.watchedAddresses ?? []) {
+            this.watchedAddresses.set(underlyingAddress, agentVault);
+        }
+        for (const [agentVault, violations] of data.evidence ?? []) {
+            const agentViolations = getOrCreate(this.evidence, agentVault, () => new Map<string, AgentViolation>());
+            for (const violation of violations) {
+                agentViolations.set(violationKey(violation), violation);
+            }
+        }
+    }
+
     async singleChallengePerAgent(agent: TrackedAgentState, body: () => Promise<void>) {
         while (this.challengedAgents.has(agent.address)) {
             await sleep(1);
@@ -0,0 +1,179 @@
+import { CollateralClass, CollateralType } from "../fasset/AssetManagerTypes";
+import { agentVaultContract, TrackedAgentState } from "../state/TrackedAgentState";
+import { TrackedState } from "../state/TrackedState";
+import { tokenContract } from "../state/TokenPrice";
+import { EventScope, EventSubscription, timeoutEvent } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { requiredEventArgs } from "../utils/events/truffle";
+import { BN_ZERO, formatBN, latestBlockTimestamp, MAX_BIPS, maxBN, minBN, toBN, toWei } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+const WITHDRAWAL_POLL_MS = 1000;
+
+export interface CollateralBand {
+    lowRatioBIPS: BN;       // top up when collateral ratio falls below this
+    targetRatioBIPS: BN;    // ratio to restore by top-up or withdrawal
+    highRatioBIPS?: BN;     // withdraw when collateral ratio rises above this (only for vault collateral)
+}
+
+export enum CollateralPolicyActionType {
+    DEPOSIT = 'deposit',
+    POOL_DEPOSIT = 'pool deposit',
+    WITHDRAWAL_ANNOUNCED = 'withdrawal announced',
+    WITHDRAWAL = 'withdrawal',
+    WITHDRAWAL_CANCELLED = 'withdrawal cancelled',
+}
+
+export interface CollateralPolicyAction {
+    type: CollateralPolicyActionType;
+    collateralClass: CollateralClass;
+    amountWei: BN;
+}
+
+/**
+ * Keeps the collateral ratios of the owner's agent within the configured bands after every price publication,
+ * by depositing vault collateral or buying pool tokens from the owner's work address and withdrawing excess vault collateral.
+ */
+export class CollateralPolicyEngine extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public agentVault: string,
+        public ownerAddress: string,    // owner's work address, pays for top-ups and receives withdrawals
+        public bands: Map<CollateralClass, CollateralBand>,
+        public poolMinDepositWei: BN = toWei(1),    // collateral pool's MIN_NAT_TO_ENTER
+        public natGasReserveWei: BN = toWei(1),     // left on the owner's address for transaction fees
+    ) {
+        super(runner, state);
+        for (const [collateralClass, band] of bands) {
+            validateBand(collateralClass, band);
+        }
+        this.pricesSubscription = this.state.pricesUpdated.subscribe(() => this.checkAgent());
+    }
+
+    actions: CollateralPolicyAction[] = [];
+
+    private pricesSubscription: EventSubscription;
+    private busy = new Set<CollateralClass>();     // collateral classes with a deposit or withdrawal in progress
+    private actionScopes = new Set<EventScope>();
+
+    stop() {
+        this.pricesSubscription.unsubscribe();
+        // stop waiting in the running actions (e.g. for the withdrawal time lock)
+        for (const scope of this.actionScopes) {
+            this.runner.finishScope(scope);
+        }
+    }
+
+    checkAgent() {
+        const agent = this.state.getAgent(this.agentVault);
+        if (agent == null) return;
+        for (const collateral of [agent.vaultCollateral, agent.poolWNatCollateral]) {
+            const collateralClass = Number(collateral.collateralClass) as CollateralClass;
+            const band = this.bands.get(collateralClass);
+            if (band == null || this.busy.has(collateralClass)) continue;
+            const collateralRatioBIPS = agent.collateralRatioBIPS(collateral);
+            if (collateralRatioBIPS.lt(band.lowRatioBIPS)) {
+                this.startAction(collateralClass, scope => this.topUp(scope, agent, collateral, band));
+            } else if (collateralClass === CollateralClass.VAULT && band.highRatioBIPS != null && collateralRatioBIPS.gt(band.highRatioBIPS)) {
+                this.startAction(collateralClass, scope => this.withdrawExcess(scope, agent, collateral, band));
+            }
+        }
+    }
+
+    /**
+     * Collateral (in token wei) that has to be added to reach the band's target ratio (negative when there is excess collateral).
+     */
+    missingCollateralWei(agent: TrackedAgentState, collateral: CollateralType, band: CollateralBand) {
+        return agent.requiredCollateralWei(collateral, band.targetRatioBIPS).sub(agent.collateralBalance(collateral));
+    }
+
+    private startAction(collateralClass: CollateralClass, action: (scope: EventScope) => Promise<void>) {
+        this.busy.add(collateralClass);
+        this.runner.startThread(async (scope) => {
+            this.actionScopes.add(scope);
+            try {
+                await action(scope);
+            } finally {
+                this.actionScopes.delete(scope);
+                this.busy.delete(collateralClass);
+            }
+        });
+    }
+
+    // top-up
+
+    private async topUp(scope: EventScope, agent: TrackedAgentState, collateral: CollateralType, band: CollateralBand) {
+        const amountWei = this.missingCollateralWei(agent, collateral, band);
+        if (amountWei.lte(BN_ZERO)) return;
+        const agentVault = await agentVaultContract(this.agentVault);
+        if (Number(collateral.collateralClass) === CollateralClass.VAULT) {
+            const token = await tokenContract(collateral.token);
+            const depositWei = minBN(amountWei, await token.balanceOf(this.ownerAddress));
+            if (depositWei.lt(amountWei)) {
+                this.log(`Agent ${this.formatAddress(this.agentVault)}: owner has only ${formatBN(depositWei)} of required ${formatBN(amountWei)} vault collateral`);
+            }
+            if (depositWei.isZero()) return;
+            this.log(`Agent ${this.formatAddress(this.agentVault)}: depositing ${formatBN(depositWei)} vault collateral to reach CR ${Number(band.targetRatioBIPS) / MAX_BIPS}`);
+            await token.approve(this.agentVault, depositWei, { from: this.ownerAddress });
+            await agentVault.depositCollateral(collateral.token, depositWei, { from: this.ownerAddress });
+            this.actions.push({ type: CollateralPolicyActionType.DEPOSIT, collateralClass: CollateralClass.VAULT, amountWei: depositWei });
+        } else {
+            const requiredWei = maxBN(amountWei, this.poolMinDepositWei);
+            const availableWei = toBN(await web3.eth.getBalance(this.ownerAddress)).sub(this.natGasReserveWei);
+            const depositWei = minBN(requiredWei, availableWei);
+            if (depositWei.lt(requiredWei)) {
+                this.log(`Agent ${this.formatAddress(this.agentVault)}: owner has only ${formatBN(maxBN(availableWei, BN_ZERO))} of required ${formatBN(requiredWei)} NAT for pool tokens`);
+            }
+            if (depositWei.lt(this.poolMinDepositWei)) return;
+            this.log(`Agent ${this.formatAddress(this.agentVault)}: buying pool tokens for ${formatBN(depositWei)} to reach pool CR ${Number(band.targetRatioBIPS) / MAX_BIPS}`);
+            await agentVault.buyCollateralPoolTokens({ from: this.ownerAddress, value: depositWei })
+                .catch(e => scope.exitOnExpectedError(e, ["amount of nat sent is too low"]));
+            this.actions.push({ type: CollateralPolicyActionType.POOL_DEPOSIT, collateralClass: CollateralClass.POOL, amountWei: depositWei });
+        }
+    }
+
+    // withdrawal
+
+    private async withdrawExcess(scope: EventScope, agent: TrackedAgentState, collateral: CollateralType, band: CollateralBand) {
+        const excessWei = this.missingCollateralWei(agent, collateral, band).neg();
+        if (excessWei.lte(BN_ZERO)) return;
+        this.log(`Agent ${this.formatAddress(this.agentVault)}: announcing withdrawal of ${formatBN(excessWei)} vault collateral`);
+        // fails when the agent is in liquidation or the excess is locked by a pending minting
+        const res = await this.context.assetManager.announceVaultCollateralWithdrawal(this.agentVault, excessWei, { from: this.ownerAddress })
+            .catch(e => scope.exitOnExpectedError(e, ["withdrawal ann: invalid status", "withdrawal: value too high"]));
+        const announced = requiredEventArgs(res, 'VaultCollateralWithdrawalAnnounced');
+        this.actions.push({ type: CollateralPolicyActionType.WITHDRAWAL_ANNOUNCED, collateralClass: CollateralClass.VAULT, amountWei: excessWei });
+        // wait for the withdrawal time lock
+        const allowedAt = Number(announced.withdrawalAllowedAt);
+        while (await latestBlockTimestamp() < allowedAt) {
+            await timeoutEvent(this.state.eventQueue, WITHDRAWAL_POLL_MS).wait(scope);
+        }
+        // prices may have changed while waiting, so withdraw at most the current excess
+        const withdrawWei = minBN(excessWei, this.missingCollateralWei(agent, collateral, band).neg());
+        const withdrawalWindowEnd = allowedAt + Number(this.state.settings.agentTimelockedOperationWindowSeconds);
+        if (withdrawWei.lte(BN_ZERO) || await latestBlockTimestamp() > withdrawalWindowEnd) {
+            await this.cancelWithdrawal(scope);
+            return;
+        }
+        this.log(`Agent ${this.formatAddress(this.agentVault)}: withdrawing ${formatBN(withdrawWei)} vault collateral`);
+        const agentVault = await agentVaultContract(this.agentVault);
+        await agentVault.withdrawCollateral(collateral.token, withdrawWei, this.ownerAddress, { from: this.ownerAddress })
+            .catch(e => scope.exitOnExpectedError(e, ["withdrawal: invalid status", "withdrawal: CR too low", "withdrawal: too late"]));
+        this.actions.push({ type: CollateralPolicyActionType.WITHDRAWAL, collateralClass: CollateralClass.VAULT, amountWei: withdrawWei });
+    }
+
+    private async cancelWithdrawal(scope: EventScope) {
+        this.log(`Agent ${this.formatAddress(this.agentVault)}: cancelling vault collateral withdrawal`);
+        await this.context.assetManager.announceVaultCollateralWithdrawal(this.agentVault, 0, { from: this.ownerAddress })
+            .catch(e => scope.exitOnExpectedError(e, ["withdrawal ann: invalid status"]));
+        this.actions.push({ type: CollateralPolicyActionType.WITHDRAWAL_CANCELLED, collateralClass: CollateralClass.VAULT, amountWei: BN_ZERO });
+    }
+}
+
+function validateBand(collateralClass: CollateralClass, band: CollateralBand) {
+    const valid = band.lowRatioBIPS.lte(band.targetRatioBIPS) && (band.highRatioBIPS == null || band.targetRatioBIPS.lte(band.highRatioBIPS));
+    if (!valid) {
+        throw new Error(`Invalid ${CollateralClass[collateralClass]} collateral band: low <= target <= high required`);
+    }
+}
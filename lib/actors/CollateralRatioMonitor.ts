@@ -0,0 +1,116 @@
+import { CollateralClass, CollateralType } from "../fasset/AssetManagerTypes";
+import { TrackedAgentState } from "../state/TrackedAgentState";
+import { TrackedState } from "../state/TrackedState";
+import { EventSubscription, TriggerableEvent } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { BN_ZERO, BNish, formatBN, MAX_BIPS, maxBN, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+export enum CollateralRatioAlertLevel {
+    OK = 0,
+    WARNING = 1,                // below safety or minting collateral ratio - minting not possible, liquidation would not end
+    CCB_IMMINENT = 2,           // close to (or below) minCollateralRatioBIPS - collateral call band
+    LIQUIDATION_IMMINENT = 3,   // close to (or below) ccbMinCollateralRatioBIPS - immediate liquidation
+}
+
+export interface CollateralRatioAlert {
+    agentVault: string;
+    collateralClass: CollateralClass;
+    token: string;
+    level: CollateralRatioAlertLevel;
+    collateralRatioBIPS: BN;
+    targetRatioBIPS: BN;
+    topUpWei: BN;       // collateral that has to be deposited to reach target ratio
+}
+
+/**
+ * Watches collateral ratios of the owner's agents after every price publication and alerts when they approach the thresholds.
+ * An alert is triggered whenever the alert level of a collateral changes.
+ */
+export class CollateralRatioMonitor extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        agentVaults: string[] = [],
+        public imminentMarginBIPS: number = 500,    // ratio is "imminent" when it is less than this relative margin above the threshold
+    ) {
+        super(runner, state);
+        for (const agentVault of agentVaults) {
+            this.addAgentVault(agentVault);
+        }
+        this.pricesSubscription = this.state.pricesUpdated.subscribe(() => this.checkAllAgents());
+    }
+
+    agentVaults = new Set<string>();
+    alertLevels = new Map<string, CollateralRatioAlertLevel>();    // `${agentVault}:${collateralClass}` => last alert level
+
+    private pricesSubscription: EventSubscription;
+
+    // synthetic events
+    alert = new TriggerableEvent<CollateralRatioAlert>(this.state.eventQueue);
+
+    addAgentVault(agentVault: string) {
+        this.agentVaults.add(agentVault);
+    }
+
+    removeAgentVault(agentVault: string) {
+        this.agentVaults.delete(agentVault);
+        for (const key of this.alertLevels.keys()) {
+            if (key.startsWith(`${agentVault}:`)) this.alertLevels.delete(key);
+        }
+    }
+
+    stop() {
+        this.pricesSubscription.unsubscribe();
+    }
+
+    checkAllAgents() {
+        for (const agentVault of this.agentVaults) {
+            const agent = this.state.getAgent(agentVault);
+            if (agent) this.checkAgent(agent);
+        }
+    }
+
+    checkAgent(agent: TrackedAgentState) {
+        for (const collateral of [agent.vaultCollateral, agent.poolWNatCollateral]) {
+            const alert = this.evaluate(agent, collateral);
+            const key = `${agent.address}:${alert.collateralClass}`;
+            const previousLevel = this.alertLevels.get(key) ?? CollateralRatioAlertLevel.OK;
+            this.alertLevels.set(key, alert.level);
+            // alert only when the level changes (also when it returns to OK), not on every price update
+            if (alert.level === previousLevel) continue;
+            this.log(`Agent ${this.formatAddress(agent.address)}: ${CollateralRatioAlertLevel[alert.level]} ${CollateralClass[alert.collateralClass]} CR=${Number(alert.collateralRatioBIPS) / MAX_BIPS}, ` +
+                `top up ${formatBN(alert.topUpWei)} to reach ${Number(alert.targetRatioBIPS) / MAX_BIPS}`);
+            this.alert.trigger(alert);
+        }
+    }
+
+    /**
+     * Grade the agent's collateral ratio for `collateral` and calculate the top-up needed to reach the safe ratio.
+     */
+    evaluate(agent: TrackedAgentState, collateral: CollateralType): CollateralRatioAlert {
+        const collateralClass = Number(collateral.collateralClass) as CollateralClass;
+        const collateralRatioBIPS = agent.collateralRatioBIPS(collateral);
+        const mintingRatioBIPS = collateralClass === CollateralClass.VAULT ? agent.mintingVaultCollateralRatioBIPS : agent.mintingPoolCollateralRatioBIPS;
+        const targetRatioBIPS = maxBN(toBN(collateral.safetyMinCollateralRatioBIPS), mintingRatioBIPS);
+        const level = this.alertLevel(collateralRatioBIPS, collateral, targetRatioBIPS);
+        const requiredWei = agent.requiredCollateralWei(collateral, targetRatioBIPS);
+        const topUpWei = maxBN(requiredWei.sub(agent.collateralBalance(collateral)), BN_ZERO);
+        return { agentVault: agent.address, collateralClass, token: collateral.token, level, collateralRatioBIPS, targetRatioBIPS, topUpWei };
+    }
+
+    private alertLevel(collateralRatioBIPS: BN, collateral: CollateralType, targetRatioBIPS: BN) {
+        if (collateralRatioBIPS.lt(this.withMargin(collateral.ccbMinCollateralRatioBIPS))) {
+            return CollateralRatioAlertLevel.LIQUIDATION_IMMINENT;
+        } else if (collateralRatioBIPS.lt(this.withMargin(collateral.minCollateralRatioBIPS))) {
+            return CollateralRatioAlertLevel.CCB_IMMINENT;
+        } else if (collateralRatioBIPS.lt(targetRatioBIPS)) {
+            return CollateralRatioAlertLevel.WARNING;
+        }
+        return CollateralRatioAlertLevel.OK;
+    }
+
+    private withMargin(thresholdBIPS: BNish) {
+        return toBN(thresholdBIPS).muln(MAX_BIPS + this.imminentMarginBIPS).divn(MAX_BIPS);
+    }
+}
@@ -0,0 +1,209 @@
+import { TransactionReceipt } from "web3-core";
+import { CollateralReserved, RedemptionRequested } from "../../typechain-truffle/IIAssetManager";
+import { AssetManagerEvents } from "../fasset/IAssetContext";
+import { RedemptionDeadlineStatus, RedemptionDeadlineTracker } from "../state/RedemptionDeadlineTracker";
+import { TrackedState } from "../state/TrackedState";
+import { AttestationHelperError } from "../underlying-chain/AttestationHelper";
+import { ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { EventScope, qualifiedEvent } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { BN_ZERO, ErrorFilter, sumBN, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+export enum ExecutorJobType {
+    MINTING = 'minting',
+    REDEMPTION_DEFAULT = 'redemption default',
+}
+
+export enum ExecutorJobStatus {
+    PENDING = 'pending',
+    EXECUTED = 'executed',      // executor's transaction succeeded and the fee was paid to the executor
+    CLOSED = 'closed',          // minter, redeemer or agent closed the request first
+    FAILED = 'failed',          // proof or executor's transaction failed (e.g. payment too small or request closed in the meantime)
+}
+
+export interface ExecutorJob {
+    type: ExecutorJobType;
+    id: BN;                     // collateral reservation id or redemption request id
+    status: ExecutorJobStatus;
+    executorFeeNatWei: BN;      // offered fee, only received when status is EXECUTED
+    gasCostNatWei: BN;          // gas spent by the executor on this job (also for failed transactions)
+}
+
+// the fields of a reverted transaction's error that identify the sent transaction
+interface TransactionRevertError {
+    receipt?: TransactionReceipt;
+    tx?: string;
+    data?: { txHash?: string };
+}
+
+/**
+ * Executes mintings and redemption defaults for requests that name this actor as the executor, in exchange for the executor fee.
+ */
+export class Executor extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public deadlineTracker: RedemptionDeadlineTracker,
+        public address: string,
+    ) {
+        super(runner, state);
+        this.registerForEvents();
+    }
+
+    jobs = new Map<string, ExecutorJob>();  // `${type}:${id}` => job
+
+    registerForEvents() {
+        this.assetManagerEvent('CollateralReserved', { executor: this.address }).subscribe(args => this.handleCollateralReserved(args));
+        this.assetManagerEvent('RedemptionRequested', { executor: this.address }).subscribe(args => this.handleRedemptionRequested(args));
+    }
+
+    // profitability
+
+    jobProfit(job: ExecutorJob) {
+        const fee = job.status === ExecutorJobStatus.EXECUTED ? job.executorFeeNatWei : BN_ZERO;
+        return fee.sub(job.gasCostNatWei);
+    }
+
+    totalProfit() {
+        return sumBN(Array.from(this.jobs.values()), job => this.jobProfit(job));
+    }
+
+    // minting
+
+    handleCollateralReserved(args: EvmEventArgs<CollateralReserved>): void {
+        const job = this.createJob(ExecutorJobType.MINTING, toBN(args.collateralReservationId), toBN(args.executorFeeNatWei));
+        this.runner.startThread(async (scope) => {
+            const crId = args.collateralReservationId;
+            const nextEvent = Promise.race([
+                this.chainEvents.transactionEvent({ reference: args.paymentReference, to: args.paymentAddress }).qualified('paid').wait(scope),
+                this.assetManagerEvent('MintingExecuted', { collateralReservationId: crId }).qualified('executed').wait(scope),
+                this.assetManagerEvent('MintingPaymentDefault', { collateralReservationId: crId }).qualified('defaulted').wait(scope),
+                this.assetManagerEvent('CollateralReservationDeleted', { collateralReservationId: crId }).qualified('deleted').wait(scope),
+            ]);
+            // the minter may have paid before this handler ran
+            const existingPayment = await this.findPayment(args);
+            const event = existingPayment != null ? qualifiedEvent('paid', existingPayment) : await nextEvent;
+            if (event.name !== 'paid') {
+                job.status = ExecutorJobStatus.CLOSED;
+                return;
+            }
+            await this.executeMinting(scope, job, args, event.args);
+        });
+    }
+
+    private async executeMinting(scope: EventScope, job: ExecutorJob, args: EvmEventArgs<CollateralReserved>, payment: ITransaction) {
+        const transaction = await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, payment.hash);
+        if (transaction == null) {
+            this.log(`Executor ${this.formatAddress(this.address)}: payment for minting ${args.collateralReservationId} not finalized`);
+            job.status = ExecutorJobStatus.FAILED;
+            return;
+        }
+        this.log(`Executor ${this.formatAddress(this.address)}: executing minting ${args.collateralReservationId}`);
+        const proof = await this.context.attestationProvider.provePayment(payment.hash, transaction.inputs[0][0], args.paymentAddress)
+            .catch(e => this.failJob(scope, job, e, [AttestationHelperError]));
+        const res = await this.sendJobTransaction(scope, job, ["invalid crt id", "minting payment too small", "minting payment too old", "invalid minter underlying addresses root"],
+            () => this.context.assetManager.executeMinting(proof, args.collateralReservationId, { from: this.address }));
+        this.finishJob(job, res);
+    }
+
+    // redemption default
+
+    handleRedemptionRequested(args: EvmEventArgs<RedemptionRequested>): void {
+        const job = this.createJob(ExecutorJobType.REDEMPTION_DEFAULT, toBN(args.requestId), toBN(args.executorFeeNatWei));
+        this.runner.startThread(async (scope) => {
+            const requestId = toBN(args.requestId);
+            // the tracker handles events immediately, so the request may have been closed or become defaultable before this handler ran
+            const redemption = this.deadlineTracker.getRedemption(requestId);
+            const event = redemption == null ? qualifiedEvent('closed', null)
+                : redemption.status === RedemptionDeadlineStatus.DEFAULTABLE ? qualifiedEvent('defaultable', redemption)
+                : await Promise.race([
+                    this.deadlineTracker.defaultable.filter(redemption => redemption.requestId.eq(requestId)).qualified('defaultable').wait(scope),
+                    this.deadlineTracker.closed.filter(redemption => redemption.requestId.eq(requestId)).qualified('closed').wait(scope),
+                ]);
+            if (event.name === 'closed') {
+                job.status = ExecutorJobStatus.CLOSED;
+                return;
+            }
+            await this.executeRedemptionDefault(scope, job, args);
+        });
+    }
+
+    private async executeRedemptionDefault(scope: EventScope, job: ExecutorJob, args: EvmEventArgs<RedemptionRequested>) {
+        this.log(`Executor ${this.formatAddress(this.address)}: claiming default for redemption ${args.requestId}`);
+        // proof fails if the payment was made - then the agent will confirm it
+        const proof = await this.context.attestationProvider.proveReferencedPaymentNonexistence(
+            args.paymentAddress,
+            args.paymentReference,
+            toBN(args.valueUBA).sub(toBN(args.feeUBA)),
+            Number(args.firstUnderlyingBlock),
+            Number(args.lastUnderlyingBlock),
+            Number(args.lastUnderlyingTimestamp))
+            .catch(e => this.failJob(scope, job, e, [AttestationHelperError]));
+        const res = await this.sendJobTransaction(scope, job, ["invalid request id", "invalid redemption status"],
+            () => this.context.assetManager.redemptionPaymentDefault(proof, args.requestId, { from: this.address }));
+        this.finishJob(job, res);
+    }
+
+    // helpers
+
+    // search for the minting payment in the reservation's payment window (up to the current block)
+    private async findPayment(args: EvmEventArgs<CollateralReserved>): Promise<ITransaction | null> {
+        const chain = this.context.chain;
+        const height = await chain.getBlockHeight();
+        for (let blockNumber = Number(args.firstUnderlyingBlock); blockNumber <= height; blockNumber++) {
+            const block = await chain.getBlockAt(blockNumber);
+            if (block == null) continue;
+            if (toBN(block.number).gt(toBN(args.lastUnderlyingBlock)) && toBN(block.timestamp).gt(toBN(args.lastUnderlyingTimestamp))) break;
+            for (const txHash of block.transactions) {
+                const transaction = await chain.getTransaction(txHash);
+                if (transaction?.reference === args.paymentReference && transaction.outputs.some(([address]) => address === args.paymentAddress)) {
+                    return transaction;
+                }
+            }
+        }
+        return null;
+    }
+
+    private createJob(type: ExecutorJobType, id: BN, executorFeeNatWei: BN) {
+        const job: ExecutorJob = { type, id, status: ExecutorJobStatus.PENDING, executorFeeNatWei, gasCostNatWei: BN_ZERO };
+        this.jobs.set(`${type}:${id}`, job);
+        return job;
+    }
+
+    private failJob(scope: EventScope, job: ExecutorJob, error: unknown, expectedErrors: ErrorFilter[]): never {
+        job.status = ExecutorJobStatus.FAILED;
+        scope.exitOnExpectedError(error, expectedErrors);
+    }
+
+    /**
+     * Send the job's transaction; if it fails, fail the job and record the gas spent.
+     */
+    private async sendJobTransaction(scope: EventScope, job: ExecutorJob, expectedErrors: ErrorFilter[], send: () => Promise<Truffle.TransactionResponse<AssetManagerEvents>>) {
+        try {
+            return await send();
+        } catch (e) {
+            job.gasCostNatWei = job.gasCostNatWei.add(await this.failedTransactionGasCost(e));
+            this.failJob(scope, job, e, expectedErrors);
+        }
+    }
+
+    /**
+     * Gas cost from the receipt (truffle) or the transaction hash (hardhat) that comes with the revert error.
+     * A transaction rejected by gas estimation is not sent and costs nothing.
+     */
+    private async failedTransactionGasCost(error: unknown) {
+        const { receipt, tx, data } = (error ?? {}) as TransactionRevertError;
+        const txHash = tx ?? data?.txHash;
+        const txReceipt = receipt ?? (txHash != null ? await web3.eth.getTransactionReceipt(txHash) : null);
+        if (txReceipt == null) return BN_ZERO;
+        return toBN(txReceipt.gasUsed).mul(toBN(txReceipt.effectiveGasPrice));
+    }
+
+    private finishJob(job: ExecutorJob, res: Truffle.TransactionResponse<AssetManagerEvents>) {
+        job.status = ExecutorJobStatus.EXECUTED;
+        job.gasCostNatWei = job.gasCostNatWei.add(toBN(res.receipt.gasUsed).mul(toBN(res.receipt.effectiveGasPrice)));
+        this.log(`Executor ${this.formatAddress(this.address)}: ${job.type} ${job.id} executed, profit ${this.jobProfit(job)} wei`);
+    }
+}
@@ -0,0 +1,92 @@
+import { time } from "@openzeppelin/test-helpers";
+import { AgentStatus } from "../fasset/AssetManagerTypes";
+import { TrackedAgentState } from "../state/TrackedAgentState";
+import { TrackedState } from "../state/TrackedState";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { BN_ZERO, formatBN, MAX_BIPS, minBN, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+export class Liquidator extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public address: string,
+    ) {
+        super(runner, state);
+        this.registerForEvents();
+    }
+
+    registerForEvents() {
+        // check for liquidations (and their end) when prices change
+        this.state.pricesUpdated.subscribe(() => this.checkAllAgentsForLiquidation());
+        // liquidate as soon as an agent enters liquidation
+        this.assetManagerEvent('LiquidationStarted').subscribe(args => this.checkAgentForLiquidation(args.agentVault));
+        this.assetManagerEvent('FullLiquidationStarted').subscribe(args => this.checkAgentForLiquidation(args.agentVault));
+    }
+
+    checkAllAgentsForLiquidation() {
+        for (const agent of this.state.agents.values()) {
+            this.checkAgentForLiquidation(agent.address);
+        }
+    }
+
+    checkAgentForLiquidation(agentVault: string) {
+        const agent = this.state.getAgent(agentVault);
+        if (!agent) return;
+        this.runner.startThread(async (scope) => {
+            await this.liquidateAgent(agent)
+                .catch(e => scope.exitOnExpectedError(e, ["not in liquidation", "liquidation not started", "cannot stop liquidation", "f-asset balance too low"]));
+        });
+    }
+
+    private async liquidateAgent(agent: TrackedAgentState) {
+        const timestamp = await time.latest();
+        const newStatus = agent.possibleLiquidationTransition(timestamp);
+        if (agent.status === AgentStatus.LIQUIDATION && newStatus === AgentStatus.NORMAL) {
+            this.log(`Liquidator ${this.formatAddress(this.address)}: ending liquidation of agent ${this.formatAddress(agent.address)}`);
+            await this.context.assetManager.endLiquidation(agent.address, { from: this.address });
+            return;
+        }
+        if (!this.inLiquidation(agent.status) && !this.inLiquidation(newStatus)) return;
+        // liquidation factors are zero until the contract's liquidation phase starts, so start it first (if there is anything to liquidate with)
+        if (!this.inLiquidation(agent.status)) {
+            if (toBN(await this.context.fAsset.balanceOf(this.address)).isZero()) return;
+            this.log(`Liquidator ${this.formatAddress(this.address)}: starting liquidation of agent ${this.formatAddress(agent.address)}`);
+            await this.context.assetManager.startLiquidation(agent.address, { from: this.address });
+        }
+        const amountUBA = await this.profitableLiquidationAmount(agent);
+        if (amountUBA.isZero()) return;
+        this.log(`Liquidator ${this.formatAddress(this.address)}: liquidating ${formatBN(amountUBA)} of agent ${this.formatAddress(agent.address)}`);
+        await this.context.assetManager.liquidate(agent.address, amountUBA, { from: this.address });
+    }
+
+    /**
+     * The amount of own f-assets that can be used to liquidate the agent with profit.
+     * Returns 0 if the liquidation is not profitable at the tracked prices or there is nothing to liquidate.
+     */
+    async profitableLiquidationAmount(agent: TrackedAgentState) {
+        const { 0: vaultFactorBIPS, 1: poolFactorBIPS, 2: maxLiquidationAmountUBA } =
+            await this.context.assetManager.getAgentLiquidationFactorsAndMaxAmount(agent.address);
+        const balanceUBA = await this.context.fAsset.balanceOf(this.address);
+        const amountUBA = minBN(toBN(maxLiquidationAmountUBA), toBN(balanceUBA));
+        if (amountUBA.isZero()) return BN_ZERO;
+        const rewardUBA = this.liquidationRewardUBA(agent, amountUBA, toBN(vaultFactorBIPS), toBN(poolFactorBIPS));
+        return rewardUBA.gt(amountUBA) ? amountUBA : BN_ZERO;
+    }
+
+    /**
+     * Estimated value (in UBA, at tracked prices) of the collateral paid for liquidating `amountUBA`.
+     */
+    liquidationRewardUBA(agent: TrackedAgentState, amountUBA: BN, vaultFactorBIPS: BN, poolFactorBIPS: BN) {
+        const vaultPrice = this.state.prices.get(agent.vaultCollateral);
+        const poolPrice = this.state.prices.get(agent.poolWNatCollateral);
+        // the payout cannot exceed the collateral the agent actually has
+        const vaultPaidWei = minBN(vaultPrice.convertUBAToTokenWei(amountUBA.mul(vaultFactorBIPS).divn(MAX_BIPS)), agent.totalVaultCollateralWei);
+        const poolPaidWei = minBN(poolPrice.convertUBAToTokenWei(amountUBA.mul(poolFactorBIPS).divn(MAX_BIPS)), agent.totalPoolCollateralNATWei);
+        return vaultPrice.convertTokenWeiToUBA(vaultPaidWei).add(poolPrice.convertTokenWeiToUBA(poolPaidWei));
+    }
+
+    private inLiquidation(status: AgentStatus) {
+        return status === AgentStatus.LIQUIDATION || status === AgentStatus.FULL_LIQUIDATION;
+    }
+}
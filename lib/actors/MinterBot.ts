@@ -0,0 +1,139 @@
+import { CollateralReserved } from "../../typechain-truffle/IIAssetManager";
+import { MintingQuoteItem, quoteMinting } from "../fasset/MintingQuote";
+import { PaymentReference } from "../fasset/PaymentReference";
+import { TrackedState } from "../state/TrackedState";
+import { IBlockChainWallet } from "../underlying-chain/interfaces/IBlockChainWallet";
+import { EventArgs } from "../utils/events/common";
+import { EventScope, timeoutEvent, TriggerableEvent } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { eventArgs } from "../utils/events/truffle";
+import { BNish, latestBlockTimestamp, toBN, ZERO_ADDRESS } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+const HANDSHAKE_POLL_MS = 1000;
+
+export enum MintingOutcomeStatus {
+    EXECUTED = 'executed',                  // f-assets minted
+    NO_AGENT = 'no agent',                  // no available agent with enough free collateral
+    REJECTED = 'rejected',                  // agent rejected the handshake
+    CANCELLED = 'cancelled',                // agent didn't respond to the handshake in time, the reservation was cancelled
+    PAYMENT_FAILED = 'payment failed',      // underlying payment was not mined or failed
+    EXECUTION_FAILED = 'execution failed',  // minting could not be executed (e.g. executed or defaulted by the agent)
+}
+
+export interface MintingOutcome {
+    status: MintingOutcomeStatus;
+    lots: BN;
+    agentVault?: string;
+    collateralReservationId?: BN;
+    paymentTransactionHash?: string;
+    mintedAmountUBA?: BN;
+}
+
+export class MinterBot extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public address: string,
+        public underlyingAddress: string,
+        public wallet: IBlockChainWallet,
+    ) {
+        super(runner, state);
+    }
+
+    outcomes: MintingOutcome[] = [];
+
+    mintingFinished = new TriggerableEvent<MintingOutcome>(this.state.eventQueue);
+
+    /**
+     * Mint `lots` lots against the given agent or, if not given, against the cheapest available agent with enough free collateral.
+     * The outcome of the reservation is recorded in `outcomes` and triggers `mintingFinished`.
+     */
+    mint(lots: BNish, agentVault?: string): void {
+        this.runner.startThread(async (scope) => {
+            const outcome = await this.performMinting(scope, toBN(lots), agentVault);
+            this.outcomes.push(outcome);
+            this.mintingFinished.trigger(outcome);
+        });
+    }
+
+    async selectAgent(lots: BN): Promise<MintingQuoteItem | undefined> {
+        const quote = await quoteMinting(this.context.assetManager, lots);
+        return quote.items[0];
+    }
+
+    private async performMinting(scope: EventScope, lots: BN, agentVault?: string): Promise<MintingOutcome> {
+        agentVault ??= (await this.selectAgent(lots))?.agentVault;
+        if (agentVault == null) {
+            this.log(`Minter ${this.formatAddress(this.address)}: no agent available for ${lots} lots`);
+            return { status: MintingOutcomeStatus.NO_AGENT, lots };
+        }
+        const reservation = await this.reserveCollateral(scope, agentVault, lots);
+        if ('status' in reservation) return reservation;
+        const crId = toBN(reservation.collateralReservationId);
+        // pay
+        const paymentAmount = toBN(reservation.valueUBA).add(toBN(reservation.feeUBA));
+        this.log(`Minter ${this.formatAddress(this.address)}: paying ${paymentAmount} for reservation ${crId}`);
+        const txHash = await this.wallet.addTransaction(this.underlyingAddress, reservation.paymentAddress, paymentAmount, PaymentReference.minting(crId));
+        const transaction = await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, txHash);
+        if (transaction == null) {
+            return { status: MintingOutcomeStatus.PAYMENT_FAILED, lots, agentVault, collateralReservationId: crId, paymentTransactionHash: txHash };
+        }
+        // execute
+        const proof = await this.context.attestationProvider.provePayment(txHash, this.underlyingAddress, reservation.paymentAddress);
+        const res = await this.context.assetManager.executeMinting(proof, crId, { from: this.address })
+            .catch(e => scope.handleExpectedErrors(e, { continue: ["invalid crt id"] }));
+        const executed = res && eventArgs(res, 'MintingExecuted');
+        if (executed == null) {
+            return { status: MintingOutcomeStatus.EXECUTION_FAILED, lots, agentVault, collateralReservationId: crId, paymentTransactionHash: txHash };
+        }
+        this.log(`Minter ${this.formatAddress(this.address)}: minted ${executed.mintedAmountUBA} for reservation ${crId}`);
+        return { status: MintingOutcomeStatus.EXECUTED, lots, agentVault, collateralReservationId: crId, paymentTransactionHash: txHash, mintedAmountUBA: toBN(executed.mintedAmountUBA) };
+    }
+
+    /**
+     * Reserve collateral and, if the agent requires handshake, wait for approval.
+     * Returns payment instructions or the outcome if the reservation was rejected or cancelled.
+     */
+    private async reserveCollateral(scope: EventScope, agentVault: string, lots: BN): Promise<EventArgs<CollateralReserved> | MintingOutcome> {
+        const agentInfo = await this.context.assetManager.getAgentInfo(agentVault);
+        const handshakeRequired = !toBN(agentInfo.handshakeType).isZero();
+        const crFee = await this.context.assetManager.collateralReservationFee(lots);
+        this.log(`Minter ${this.formatAddress(this.address)}: reserving ${lots} lots at agent ${this.formatAddress(agentVault)}`);
+        const res = await this.context.assetManager.reserveCollateral(agentVault, lots, agentInfo.feeBIPS, ZERO_ADDRESS,
+            handshakeRequired ? [this.underlyingAddress] : [], { from: this.address, value: crFee });
+        const reserved = eventArgs(res, 'CollateralReserved');
+        if (reserved != null) return reserved;
+        const handshake = eventArgs(res, 'HandshakeRequired');
+        const crId = toBN(handshake.collateralReservationId);
+        // wait for the agent's response or the cancellation time
+        const agentResponse = Promise.race([
+            this.assetManagerEvent('CollateralReserved', { collateralReservationId: crId }).qualified('reserved').wait(scope),
+            this.assetManagerEvent('CollateralReservationRejected', { collateralReservationId: crId }).qualified('rejected').wait(scope),
+            this.assetManagerEvent('CollateralReservationCancelled', { collateralReservationId: crId }).qualified('cancelled').wait(scope),
+        ]);
+        const startTimestamp = Number((await web3.eth.getBlock(res.receipt.blockNumber)).timestamp);
+        const cancelTimestamp = startTimestamp + Number(this.state.settings.cancelCollateralReservationAfterSeconds);
+        let event = await Promise.race([agentResponse, timeoutEvent(this.state.eventQueue, HANDSHAKE_POLL_MS).qualified('timeout').wait(scope)]);
+        while (event.name === 'timeout') {
+            if (await latestBlockTimestamp() > cancelTimestamp) {
+                // cancelling fails if the agent responded in the meantime - either way, the response event will arrive
+                await this.context.assetManager.cancelCollateralReservation(crId, { from: this.address })
+                    .catch(e => scope.handleExpectedErrors(e, { continue: ["collateral reservation already approved", "invalid crt id"] }));
+                event = await agentResponse;
+            } else {
+                event = await Promise.race([agentResponse, timeoutEvent(this.state.eventQueue, HANDSHAKE_POLL_MS).qualified('timeout').wait(scope)]);
+            }
+        }
+        switch (event.name) {
+            case 'reserved':
+                return event.args;
+            case 'rejected':
+                this.log(`Minter ${this.formatAddress(this.address)}: reservation ${crId} rejected`);
+                return { status: MintingOutcomeStatus.REJECTED, lots, agentVault, collateralReservationId: crId };
+            case 'cancelled':
+                this.log(`Minter ${this.formatAddress(this.address)}: cancelled reservation ${crId}`);
+                return { status: MintingOutcomeStatus.CANCELLED, lots, agentVault, collateralReservationId: crId };
+        }
+    }
+}
@@ -0,0 +1,78 @@
+import { RedemptionRequested } from "../../typechain-truffle/IIAssetManager";
+import { RedemptionDeadlineTracker } from "../state/RedemptionDeadlineTracker";
+import { TrackedState } from "../state/TrackedState";
+import { AttestationHelperError } from "../underlying-chain/AttestationHelper";
+import { ITransaction, TX_SUCCESS } from "../underlying-chain/interfaces/IBlockChain";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { EventScope } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { BN_ZERO, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+export class RedeemerBot extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public deadlineTracker: RedemptionDeadlineTracker,
+        public address: string,
+    ) {
+        super(runner, state);
+        this.registerForEvents();
+    }
+
+    registerForEvents() {
+        this.assetManagerEvent('RedemptionRequested', { redeemer: this.address }).subscribe(args => this.handleRedemptionRequested(args));
+    }
+
+    handleRedemptionRequested(args: EvmEventArgs<RedemptionRequested>): void {
+        this.runner.startThread(async (scope) => {
+            const requestId = toBN(args.requestId);
+            // remember payments with the redemption reference, so that default isn't claimed for a paid (but not yet confirmed) redemption
+            const payments: ITransaction[] = [];
+            this.chainEvents.transactionEvent({ reference: args.paymentReference, to: args.paymentAddress })
+                .subscribeIn(scope, transaction => payments.push(transaction));
+            const event = await Promise.race([
+                this.deadlineTracker.defaultable.filter(redemption => redemption.requestId.eq(requestId)).qualified('defaultable').wait(scope),
+                this.deadlineTracker.closed.filter(redemption => redemption.requestId.eq(requestId)).qualified('closed').wait(scope),
+            ]);
+            if (event.name === 'closed') return;
+            if (await this.paidInTime(args, payments)) {
+                this.log(`Redeemer ${this.formatAddress(this.address)}: redemption ${args.requestId} was paid, waiting for confirmation`);
+                return;
+            }
+            await this.claimDefault(scope, args);
+        });
+    }
+
+    private async claimDefault(scope: EventScope, args: EvmEventArgs<RedemptionRequested>) {
+        this.log(`Redeemer ${this.formatAddress(this.address)}: claiming default for redemption ${args.requestId}`);
+        const proof = await this.context.attestationProvider.proveReferencedPaymentNonexistence(
+            args.paymentAddress,
+            args.paymentReference,
+            toBN(args.valueUBA).sub(toBN(args.feeUBA)),
+            Number(args.firstUnderlyingBlock),
+            Number(args.lastUnderlyingBlock),
+            Number(args.lastUnderlyingTimestamp))
+            .catch(e => scope.exitOnExpectedError(e, [AttestationHelperError]));
+        // the agent may have confirmed or defaulted the redemption in the meantime
+        await this.context.assetManager.redemptionPaymentDefault(proof, args.requestId, { from: this.address })
+            .catch(e => scope.exitOnExpectedError(e, ["invalid request id", "invalid redemption status"]));
+    }
+
+    /**
+     * Check if any of the observed payments pays the full amount before the payment deadlines.
+     */
+    private async paidInTime(args: EvmEventArgs<RedemptionRequested>, payments: ITransaction[]) {
+        const paymentAmount = toBN(args.valueUBA).sub(toBN(args.feeUBA));
+        for (const payment of payments) {
+            if (payment.status !== TX_SUCCESS) continue;
+            const received = payment.outputs.reduce((total, [address, amount]) => address === args.paymentAddress ? total.add(toBN(amount)) : total, BN_ZERO);
+            if (received.lt(paymentAmount)) continue;
+            const blockId = await this.context.chain.getTransactionBlock(payment.hash);
+            const block = blockId && await this.context.chain.getBlock(blockId.hash);
+            if (block == null) continue;    // reverted in the meantime
+            if (block.number <= Number(args.lastUnderlyingBlock) || block.timestamp <= Number(args.lastUnderlyingTimestamp)) return true;
+        }
+        return false;
+    }
+}
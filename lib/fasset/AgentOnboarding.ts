@@ -0,0 +1,172 @@
+import { AddressValidity } from "@flarenetwork/state-connector-protocol";
+import { IBlockChainWallet } from "../underlying-chain/interfaces/IBlockChainWallet";
+import { EvmEvent } from "../utils/events/common";
+import { requiredEventArgs } from "../utils/events/truffle";
+import { errorIncluded } from "../utils/helpers";
+import { web3DeepNormalize } from "../utils/web3normalize";
+import { AgentSettings } from "./AssetManagerTypes";
+import { IAssetContext } from "./IAssetContext";
+import { PaymentReference } from "./PaymentReference";
+
+export class AgentOnboardingError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+export enum AgentOnboardingStep {
+    VALIDATE_ADDRESS = 'validate address',              // obtain address validity proof and check it before spending anything
+    PAY_ADDRESS_OWNERSHIP = 'pay address ownership',    // self-payment with `PaymentReference.addressOwnership` (only on chains requiring EOA proof)
+    PROVE_EOA = 'prove EOA',                            // prove the self-payment and submit it with `proveUnderlyingAddressEOA`
+    CREATE_VAULT = 'create vault',
+    DONE = 'done',
+}
+
+// serializable onboarding data; save it after every step to be able to resume
+export interface AgentOnboardingStateData {
+    step: AgentOnboardingStep;
+    addressValidityProof?: AddressValidity.Proof;
+    ownershipTransactionHash?: string;
+    createVaultFromBlock?: number;      // EVM block before the vault creation was sent, to find the vault after interruption
+    agentVault?: string;
+}
+
+/**
+ * Creates agent vault for an underlying address, including the EOA proof on chains that require it (`ChainInfo.requireEOAProof`).
+ * Every step records its progress, so that after interruption (e.g. a crash after the self-payment was sent) a new instance
+ * with restored state continues where the previous one stopped, without repeating payments or transactions.
+ */
+export class AgentOnboarding {
+    constructor(
+        public context: IAssetContext,
+        public wallet: IBlockChainWallet,
+        public ownerAddress: string,        // owner's management address, which `AgentVaultCreated` is indexed by
+        public underlyingAddress: string,
+        public settings: AgentSettings,
+    ) {}
+
+    step = AgentOnboardingStep.VALIDATE_ADDRESS;
+    addressValidityProof?: AddressValidity.Proof;
+    ownershipTransactionHash?: string;
+    createVaultFromBlock?: number;
+    agentVault?: string;
+
+    get standardAddress() {
+        if (this.addressValidityProof == null) throw new AgentOnboardingError("address not validated yet");
+        return this.addressValidityProof.data.responseBody.standardAddress;
+    }
+
+    /**
+     * Execute the remaining steps and return the agent vault address.
+     * @param checkpoint called after every completed step, e.g. to persist `saveState()`
+     */
+    async run(checkpoint?: (data: AgentOnboardingStateData) => Promise<void>): Promise<string> {
+        while (this.step !== AgentOnboardingStep.DONE) {
+            await this.runStep();
+            await checkpoint?.(this.saveState());
+        }
+        return this.agentVault!;
+    }
+
+    async runStep() {
+        switch (this.step) {
+            case AgentOnboardingStep.VALIDATE_ADDRESS:
+                await this.validateAddress();
+                this.step = this.context.chainInfo.requireEOAProof ? AgentOnboardingStep.PAY_ADDRESS_OWNERSHIP : AgentOnboardingStep.CREATE_VAULT;
+                break;
+            case AgentOnboardingStep.PAY_ADDRESS_OWNERSHIP:
+                await this.payAddressOwnership();
+                this.step = AgentOnboardingStep.PROVE_EOA;
+                break;
+            case AgentOnboardingStep.PROVE_EOA:
+                await this.proveEOA();
+                this.step = AgentOnboardingStep.CREATE_VAULT;
+                break;
+            case AgentOnboardingStep.CREATE_VAULT:
+                await this.createVault();
+                this.step = AgentOnboardingStep.DONE;
+                break;
+        }
+    }
+
+    private async validateAddress() {
+        this.checkAddressFormat();
+        const proof = await this.context.attestationProvider.proveAddressValidity(this.underlyingAddress);
+        if (!proof.data.responseBody.isValid) {
+            throw new AgentOnboardingError(`invalid underlying address ${this.underlyingAddress}`);
+        }
+        this.addressValidityProof = proof;
+    }
+
+    // cheap local check, so that attestation isn't requested for obviously invalid addresses
+    private checkAddressFormat() {
+        const address = this.underlyingAddress;
+        const format = this.context.chainInfo.underlyingAddressFormat;
+        if (address === "" || address.trim() !== address || (format != null && !format.test(address))) {
+            throw new AgentOnboardingError(`invalid underlying address ${address}`);
+        }
+    }
+
+    private async payAddressOwnership() {
+        // the transaction may already be sent before interruption; send a new one only if it vanished
+        if (this.ownershipTransactionHash != null && await this.waitForFinalization(this.ownershipTransactionHash)) return;
+        this.ownershipTransactionHash = await this.wallet.addTransaction(this.standardAddress, this.standardAddress, 1, PaymentReference.addressOwnership(this.ownerAddress));
+        if (!await this.waitForFinalization(this.ownershipTransactionHash)) {
+            throw new AgentOnboardingError(`address ownership payment ${this.ownershipTransactionHash} not found`);
+        }
+    }
+
+    private async proveEOA() {
+        const txHash = this.ownershipTransactionHash!;
+        const proof = await this.context.attestationProvider.provePayment(txHash, this.standardAddress, this.standardAddress);
+        await this.context.assetManager.proveUnderlyingAddressEOA(proof, { from: this.ownerAddress })
+            .catch(e => {
+                // the proof was submitted before interruption (if the address was claimed by someone else, vault creation will fail)
+                if (errorIncluded(e, ["address already claimed"])) return;
+                throw e;
+            });
+    }
+
+    private async createVault() {
+        if (this.createVaultFromBlock != null) {
+            this.agentVault = await this.findCreatedVault(this.createVaultFromBlock);
+            if (this.agentVault != null) return;
+        }
+        this.createVaultFromBlock = await web3.eth.getBlockNumber();
+        const response = await this.context.assetManager.createAgentVault(web3DeepNormalize(this.addressValidityProof!), web3DeepNormalize(this.settings), { from: this.ownerAddress });
+        this.agentVault = requiredEventArgs(response, 'AgentVaultCreated').agentVault;
+    }
+
+    private async findCreatedVault(fromBlock: number) {
+        const events: EvmEvent[] = await this.context.assetManager.getPastEvents('AgentVaultCreated', { fromBlock, filter: { owner: this.ownerAddress } });
+        const event = events.find(ev => ev.args.creationData.underlyingAddress === this.standardAddress);
+        return event?.args.agentVault as string | undefined;
+    }
+
+    private async waitForFinalization(txHash: string) {
+        if (this.context.chain.finalizationBlocks === 0) {
+            return await this.context.chain.getTransaction(txHash) != null;
+        }
+        return await this.context.chainEvents.waitForUnderlyingTransactionFinalization(undefined, txHash) != null;
+    }
+
+    // persistence
+
+    saveState(): AgentOnboardingStateData {
+        return {
+            step: this.step,
+            addressValidityProof: this.addressValidityProof,
+            ownershipTransactionHash: this.ownershipTransactionHash,
+            createVaultFromBlock: this.createVaultFromBlock,
+            agentVault: this.agentVault,
+        };
+    }
+
+    restoreState(data: AgentOnboardingStateData) {
+        this.step = data.step;
+        this.addressValidityProof = data.addressValidityProof;
+        this.ownershipTransactionHash = data.ownershipTransactionHash;
+        this.createVaultFromBlock = data.createVaultFromBlock;
+        this.agentVault = data.agentVault;
+    }
+}
@@ -7,4 +7,5 @@ export interface ChainInfo {
     decimals: number;
     amgDecimals: number;
     requireEOAProof: boolean;
+    underlyingAddressFormat?: RegExp;   // optional local check before requesting address validity attestation
 }
@@ -0,0 +1,115 @@
+import { IIAssetManagerInstance } from "../../typechain-truffle";
+import { BN_ZERO, BNish, MAX_BIPS, minBN, toBN } from "../utils/helpers";
+import { AgentStatus, AssetManagerSettings, AvailableAgentInfo } from "./AssetManagerTypes";
+import { convertLotsToUBA } from "./Conversions";
+
+const MAX_LISTED_AGENTS = 100;
+
+export interface MintingQuoteCandidate extends AvailableAgentInfo {
+    handshakeType: BNish;       // from `getAgentInfo`, 0 when no handshake is required
+}
+
+export interface MintingQuoteOptions {
+    maxAgents?: number;             // the most agents the mint may be split across (default 1 - no splitting)
+    allowHandshake?: boolean;       // whether agents requiring handshake may be used (default true)
+    excludedAgents?: string[];
+}
+
+export interface MintingQuoteItem {
+    agentVault: string;
+    lots: BN;
+    feeBIPS: BN;
+    handshakeRequired: boolean;
+    valueUBA: BN;
+    mintingFeeUBA: BN;                      // agent's fee, paid on the underlying chain together with `valueUBA`
+    collateralReservationFeeNatWei: BN;     // paid with `reserveCollateral`
+}
+
+export interface MintingQuote {
+    items: MintingQuoteItem[];              // in the order of increasing cost
+    lots: BN;
+    unfilledLots: BN;                       // lots that no (allowed) agent has free collateral for
+    totalPaymentUBA: BN;                    // underlying value plus minting fees over all items
+    totalCollateralReservationFeeNatWei: BN;
+}
+
+/**
+ * Order agents by the cost of minting a lot: the minting fee first (the collateral reservation fee per lot is the same for all agents),
+ * then agents without handshake, then agents with more free lots (fewer splits), and finally by address so that the order is deterministic.
+ */
+export function compareMintingCandidates(a: MintingQuoteCandidate, b: MintingQuoteCandidate) {
+    return toBN(a.feeBIPS).cmp(toBN(b.feeBIPS))
+        || Number(handshakeRequired(a)) - Number(handshakeRequired(b))
+        || toBN(b.freeCollateralLots).cmp(toBN(a.freeCollateralLots))
+        || a.agentVault.toLowerCase().localeCompare(b.agentVault.toLowerCase());
+}
+
+/**
+ * Split `lots` over the cheapest candidates that are allowed by `options` and have free collateral.
+ * With `maxAgents` 1 the cheapest agent that can mint all lots is chosen; if there is none, the plan is empty.
+ * Collateral reservation fees are left 0 - they are filled in by `quoteMinting`, since they depend on the contract's current price.
+ */
+export function planMinting(settings: AssetManagerSettings, candidates: MintingQuoteCandidate[], lots: BNish, options: MintingQuoteOptions = {}): MintingQuote {
+    const maxAgents = options.maxAgents ?? 1;
+    const excluded = new Set((options.excludedAgents ?? []).map(address => address.toLowerCase()));
+    const available = candidates
+        .filter(agent => Number(agent.status) === AgentStatus.NORMAL && toBN(agent.freeCollateralLots).gtn(0))
+        .filter(agent => (options.allowHandshake ?? true) || !handshakeRequired(agent))
+        .filter(agent => !excluded.has(agent.agentVault.toLowerCase()))
+        .sort(compareMintingCandidates);
+    const selected = maxAgents === 1 ? available.filter(agent => toBN(agent.freeCollateralLots).gte(toBN(lots))).slice(0, 1) : available;
+    const items: MintingQuoteItem[] = [];
+    let remainingLots = toBN(lots);
+    for (const agent of selected) {
+        if (remainingLots.isZero() || items.length >= maxAgents) break;
+        const itemLots = minBN(remainingLots, toBN(agent.freeCollateralLots));
+        // as in CollateralReservations.reserveCollateral
+        const valueUBA = convertLotsToUBA(settings, itemLots);
+        const feeBIPS = toBN(agent.feeBIPS);
+        items.push({
+            agentVault: agent.agentVault, lots: itemLots, feeBIPS, handshakeRequired: handshakeRequired(agent),
+            valueUBA, mintingFeeUBA: valueUBA.mul(feeBIPS).divn(MAX_BIPS), collateralReservationFeeNatWei: BN_ZERO,
+        });
+        remainingLots = remainingLots.sub(itemLots);
+    }
+    return {
+        items,
+        lots: toBN(lots),
+        unfilledLots: remainingLots,
+        totalPaymentUBA: items.reduce((sum, item) => sum.add(item.valueUBA).add(item.mintingFeeUBA), BN_ZERO),
+        totalCollateralReservationFeeNatWei: BN_ZERO,
+    };
+}
+
+/**
+ * Read available agents from the asset manager and plan the minting of `lots` with `planMinting`, including collateral reservation fees.
+ */
+export async function quoteMinting(assetManager: IIAssetManagerInstance, lots: BNish, options: MintingQuoteOptions = {}): Promise<MintingQuote> {
+    const settings = await assetManager.getSettings();
+    const candidates = await getMintingQuoteCandidates(assetManager);
+    const quote = planMinting(settings, candidates, lots, options);
+    for (const item of quote.items) {
+        item.collateralReservationFeeNatWei = toBN(await assetManager.collateralReservationFee(item.lots));
+        quote.totalCollateralReservationFeeNatWei = quote.totalCollateralReservationFeeNatWei.add(item.collateralReservationFeeNatWei);
+    }
+    return quote;
+}
+
+export async function getMintingQuoteCandidates(assetManager: IIAssetManagerInstance): Promise<MintingQuoteCandidate[]> {
+    const candidates: MintingQuoteCandidate[] = [];
+    let start = 0;
+    while (true) {
+        const { 0: agents, 1: total } = await assetManager.getAvailableAgentsDetailedList(start, start + MAX_LISTED_AGENTS);
+        for (const agent of agents) {
+            const agentInfo = await assetManager.getAgentInfo(agent.agentVault);
+            candidates.push({ ...agent, handshakeType: agentInfo.handshakeType });
+        }
+        start += MAX_LISTED_AGENTS;
+        if (agents.length === 0 || start >= Number(total)) break;
+    }
+    return candidates;
+}
+
+function handshakeRequired(agent: MintingQuoteCandidate) {
+    return !toBN(agent.handshakeType).isZero();
+}
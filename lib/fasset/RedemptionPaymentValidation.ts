@@ -0,0 +1,113 @@
+import { Payment } from "@flarenetwork/state-connector-protocol";
+import { RedemptionRequested } from "../../typechain-truffle/IIAssetManager";
+import { TX_BLOCKED, TX_FAILED, TX_SUCCESS } from "../underlying-chain/interfaces/IBlockChain";
+import { EventArgs } from "../utils/events/common";
+import { BNish, toBN } from "../utils/helpers";
+
+export interface PaymentStatusRule {
+    countsAsPayment: boolean;           // the payer did its part (blocked payments are the receiver's fault), so nonpayment cannot be proved
+    requiresReceivedAmount: boolean;    // the received amount must cover the requested payment
+    failureReason?: string;             // the asset manager's failure reason for payments with this status
+}
+
+/**
+ * How the asset manager treats payment proofs by their status (`TransactionAttestation.PAYMENT_*`).
+ * The mock attestation prover uses the same table to decide which transactions prevent nonpayment proofs.
+ */
+export const PAYMENT_STATUS_RULES: Record<number, PaymentStatusRule> = {
+    [TX_SUCCESS]: { countsAsPayment: true, requiresReceivedAmount: true },
+    [TX_FAILED]: { countsAsPayment: false, requiresReceivedAmount: true, failureReason: "transaction failed" },
+    [TX_BLOCKED]: { countsAsPayment: true, requiresReceivedAmount: false },
+};
+
+export function paymentStatusRule(status: BNish): PaymentStatusRule {
+    const rule = PAYMENT_STATUS_RULES[Number(status)];
+    if (rule == null) {
+        throw new Error(`Unknown payment status ${status}`);
+    }
+    return rule;
+}
+
+export enum RedemptionPaymentOutcome {
+    SUCCESS = 'success',                    // `RedemptionPerformed`
+    BLOCKED = 'blocked',                    // `RedemptionPaymentBlocked`
+    FAILED = 'failed',                      // `RedemptionPaymentFailed` and the redemption defaults
+    TOO_LATE = 'too late',                  // `RedemptionPaymentFailed` with reason "redemption payment too late"
+    WRONG_REFERENCE = 'wrong reference',    // confirmation reverts
+    TOO_OLD = 'too old',                    // confirmation reverts - payment before the redemption request
+}
+
+export enum RedemptionPaymentAction {
+    CONFIRM = 'confirm',                    // successful or blocked payment
+    CONFIRM_FAILURE = 'confirm failure',    // failed payment; the confirmation defaults the redemption
+    EXPECT_DEFAULT = 'expect default',      // the proof cannot be confirmed; the redemption defaults through `redemptionPaymentDefault`
+}
+
+export interface RedemptionPaymentValidation {
+    outcome: RedemptionPaymentOutcome;
+    confirmable: boolean;           // `confirmRedemptionPayment` would not revert
+    failureReason?: string;         // as in `RedemptionPaymentFailed` event
+    revertMessage?: string;
+}
+
+export type RedemptionPaymentRequest = Pick<EventArgs<RedemptionRequested>,
+    'requestId' | 'paymentAddress' | 'valueUBA' | 'feeUBA' | 'firstUnderlyingBlock' | 'lastUnderlyingBlock' | 'lastUnderlyingTimestamp' | 'paymentReference'>;
+
+export interface RedemptionPaymentValidationOptions {
+    agentUnderlyingAddress?: string;    // if set, failed payments from other addresses are reported as not confirmable
+    defaulted?: boolean;                // the redemption is already defaulted
+}
+
+/**
+ * Classify the payment proof for the redemption request as `RedemptionConfirmations.confirmRedemptionPayment` does (ignoring the caller checks).
+ */
+export function validateRedemptionPayment(request: RedemptionPaymentRequest, proof: Payment.Proof, options: RedemptionPaymentValidationOptions = {}): RedemptionPaymentValidation {
+    const response = proof.data.responseBody;
+    if (response.standardPaymentReference.toLowerCase() !== request.paymentReference.toLowerCase()) {
+        return { outcome: RedemptionPaymentOutcome.WRONG_REFERENCE, confirmable: false, revertMessage: "invalid redemption reference" };
+    }
+    if (toBN(response.blockNumber).lt(toBN(request.firstUnderlyingBlock))) {
+        return { outcome: RedemptionPaymentOutcome.TOO_OLD, confirmable: false, revertMessage: "redemption payment too old" };
+    }
+    const [outcome, failureReason] = classifyPayment(request, proof, options.defaulted ?? false);
+    if (failureReason == null) {
+        return { outcome, confirmable: true };
+    }
+    if (options.agentUnderlyingAddress != null && response.sourceAddressHash.toLowerCase() !== web3.utils.keccak256(options.agentUnderlyingAddress).toLowerCase()) {
+        return { outcome, confirmable: false, failureReason, revertMessage: "confirm failed payment only from agent's address" };
+    }
+    return { outcome, confirmable: true, failureReason };
+}
+
+/**
+ * What the agent should do with the validated proof.
+ * Failed payments are never retried - a second payment with the same reference is a provable double payment.
+ */
+export function redemptionPaymentAction(validation: RedemptionPaymentValidation) {
+    if (!validation.confirmable) {
+        return RedemptionPaymentAction.EXPECT_DEFAULT;
+    }
+    return validation.failureReason == null ? RedemptionPaymentAction.CONFIRM : RedemptionPaymentAction.CONFIRM_FAILURE;
+}
+
+// as in RedemptionConfirmations._validatePayment
+function classifyPayment(request: RedemptionPaymentRequest, proof: Payment.Proof, defaulted: boolean): [RedemptionPaymentOutcome, string | undefined] {
+    const response = proof.data.responseBody;
+    const rule = paymentStatusRule(response.status);
+    const paymentValueUBA = toBN(request.valueUBA).sub(toBN(request.feeUBA));
+    if (rule.failureReason != null) {
+        return [RedemptionPaymentOutcome.FAILED, rule.failureReason];
+    } else if (response.receivingAddressHash.toLowerCase() !== web3.utils.keccak256(request.paymentAddress).toLowerCase()) {
+        return [RedemptionPaymentOutcome.FAILED, "not redeemer's address"];
+    } else if (toBN(response.receivedAmount).lt(paymentValueUBA)) {
+        // the contract skips the lateness checks in this branch
+        if (rule.requiresReceivedAmount) {
+            return [RedemptionPaymentOutcome.FAILED, "redemption payment too small"];
+        }
+    } else if (toBN(response.blockNumber).gt(toBN(request.lastUnderlyingBlock)) && toBN(response.blockTimestamp).gt(toBN(request.lastUnderlyingTimestamp))) {
+        return [RedemptionPaymentOutcome.TOO_LATE, "redemption payment too late"];
+    } else if (defaulted) {
+        return [RedemptionPaymentOutcome.TOO_LATE, "redemption payment too late"];
+    }
+    return [Number(response.status) === TX_SUCCESS ? RedemptionPaymentOutcome.SUCCESS : RedemptionPaymentOutcome.BLOCKED, undefined];
+}
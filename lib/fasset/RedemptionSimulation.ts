@@ -0,0 +1,94 @@
+import { BN_ZERO, BNish, MAX_BIPS, minBN, toBN } from "../utils/helpers";
+import { AssetManagerSettings } from "./AssetManagerTypes";
+import { convertAmgToUBA, convertUBAToAmg } from "./Conversions";
+
+const GWEI = toBN(1e9);
+
+export interface RedemptionQueueTicket {
+    redemptionTicketId: BNish;
+    agentVault: string;
+    ticketValueUBA: BNish;
+}
+
+export interface SimulatedRedemptionRequest {
+    agentVault: string;
+    lots: BN;
+    valueUBA: BN;
+    feeUBA: BN;
+    executorFeeNatWei: BN;
+    redemptionTicketIds: BN[];
+}
+
+export interface SimulatedDustChange {
+    agentVault: string;
+    dustUBA: BN;            // agent's dust after the change, as in `DustChanged` event
+}
+
+export interface RedemptionSimulation {
+    requests: SimulatedRedemptionRequest[];     // in the order of `RedemptionRequested` events
+    redeemedLots: BN;
+    remainingLots: BN;                          // as in `RedemptionRequestIncomplete` event (0 if redemption is complete)
+    dustChanges: SimulatedDustChange[];         // in the order of `DustChanged` events
+}
+
+/**
+ * Simulate `redeem(lots)` on the given redemption queue (in queue order) and agents' dust, following the contract's `RedemptionRequests.redeem`.
+ * Does not modify `queue`. If `redeemedLots` is 0, the contract call would revert with "redeem 0 lots".
+ */
+export function simulateRedemption(
+    settings: AssetManagerSettings,
+    queue: Iterable<RedemptionQueueTicket>,
+    agentDustUBA: (agentVault: string) => BNish,
+    lots: BNish,
+    executorFeeNatWei: BNish = 0,
+): RedemptionSimulation {
+    const lotSizeAMG = toBN(settings.lotSizeAMG);
+    const maxRedeemedTickets = Number(settings.maxRedeemedTickets);
+    const requests = new Map<string, SimulatedRedemptionRequest & { valueAMG: BN }>();
+    const dustAMG = new Map<string, BN>();
+    const dustChanges: SimulatedDustChange[] = [];
+    const tickets = queue[Symbol.iterator]();
+    let redeemedLots = BN_ZERO;
+    for (let i = 0; i < maxRedeemedTickets && redeemedLots.lt(toBN(lots)); i++) {
+        const next = tickets.next();
+        if (next.done) break;   // queue empty
+        const ticket = next.value;
+        const ticketAMG = convertUBAToAmg(settings, ticket.ticketValueUBA);
+        const ticketLots = minBN(toBN(lots).sub(redeemedLots), ticketAMG.div(lotSizeAMG));
+        if (ticketLots.isZero()) break;
+        const redeemedAMG = ticketLots.mul(lotSizeAMG);
+        let request = requests.get(ticket.agentVault);
+        if (request == null) {
+            request = { agentVault: ticket.agentVault, lots: BN_ZERO, valueAMG: BN_ZERO, valueUBA: BN_ZERO, feeUBA: BN_ZERO, executorFeeNatWei: BN_ZERO, redemptionTicketIds: [] };
+            requests.set(ticket.agentVault, request);
+        }
+        request.lots = request.lots.add(ticketLots);
+        request.valueAMG = request.valueAMG.add(redeemedAMG);
+        request.redemptionTicketIds.push(toBN(ticket.redemptionTicketId));
+        // the remainder of the ticket smaller than a lot becomes the agent's dust (as in `Redemptions.removeFromTicket`)
+        const remainingAMG = ticketAMG.sub(redeemedAMG);
+        if (remainingAMG.gtn(0) && remainingAMG.lt(lotSizeAMG)) {
+            const currentDustAMG = dustAMG.get(ticket.agentVault) ?? convertUBAToAmg(settings, agentDustUBA(ticket.agentVault));
+            const newDustAMG = currentDustAMG.add(remainingAMG);
+            dustAMG.set(ticket.agentVault, newDustAMG);
+            dustChanges.push({ agentVault: ticket.agentVault, dustUBA: convertAmgToUBA(settings, newDustAMG) });
+        }
+        redeemedLots = redeemedLots.add(ticketLots);
+    }
+    // distribute the executor fee over requests with at most 1 gwei leftover
+    let executorFeeNatGWei = toBN(executorFeeNatWei).div(GWEI);
+    const result = Array.from(requests.values());
+    result.forEach((request, i) => {
+        const currentExecutorFeeNatGWei = executorFeeNatGWei.divn(result.length - i);
+        executorFeeNatGWei = executorFeeNatGWei.sub(currentExecutorFeeNatGWei);
+        request.valueUBA = convertAmgToUBA(settings, request.valueAMG);
+        request.feeUBA = request.valueUBA.mul(toBN(settings.redemptionFeeBIPS)).divn(MAX_BIPS);
+        request.executorFeeNatWei = currentExecutorFeeNatGWei.mul(GWEI);
+    });
+    return {
+        requests: result.map(({ valueAMG, ...request }) => request),
+        redeemedLots,
+        remainingLots: toBN(lots).sub(redeemedLots),
+        dustChanges,
+    };
+}
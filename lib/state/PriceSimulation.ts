@@ -0,0 +1,129 @@
+import { AgentStatus, CollateralType } from "../fasset/AssetManagerTypes";
+import { convertAmgToUBA, convertUBAToAmg } from "../fasset/Conversions";
+import { BN_ZERO, MAX_BIPS, maxBN, minBN, toBN } from "../utils/helpers";
+import { PriceChanges } from "./Prices";
+import { TrackedAgentState } from "./TrackedAgentState";
+import { TrackedState } from "./TrackedState";
+
+export interface LiquidationStepEstimate {
+    step: number;
+    vaultFactorBIPS: BN;
+    poolFactorBIPS: BN;
+    liquidatableUBA: BN;        // the most that can be liquidated in this step
+    vaultRewardWei: BN;         // liquidator's reward in vault collateral for liquidating `liquidatableUBA`
+    poolRewardWei: BN;          // liquidator's reward in pool collateral for liquidating `liquidatableUBA`
+}
+
+export interface AgentPriceSimulation {
+    agentVault: string;
+    status: AgentStatus;
+    vaultCollateralRatioBIPS: BN;
+    poolCollateralRatioBIPS: BN;
+    newStatus: AgentStatus;
+    currentStep: number;                                // liquidation step at the simulation timestamp
+    liquidatableUBA: BN;                                // liquidatable amount in the current step
+    liquidationSteps: LiquidationStepEstimate[];        // empty when the agent would not be in liquidation
+}
+
+enum LiquidationPhase { NONE, CCB, LIQUIDATION }
+
+/**
+ * Apply hypothetical price changes to a copy of the state and report for every agent the resulting collateral ratios,
+ * the status after the possible liquidation transition and the liquidation amounts and rewards per liquidation step.
+ */
+export function simulatePriceChanges(state: TrackedState, changes: PriceChanges, timestamp: BN): AgentPriceSimulation[] {
+    const simulatedState = state.withPriceChanges(changes);
+    return Array.from(simulatedState.agents.values(), agent => simulateAgent(agent, timestamp));
+}
+
+function simulateAgent(agent: TrackedAgentState, timestamp: BN): AgentPriceSimulation {
+    const vaultCollateralRatioBIPS = agent.collateralRatioBIPS(agent.vaultCollateral);
+    const poolCollateralRatioBIPS = agent.collateralRatioBIPS(agent.poolWNatCollateral);
+    const newStatus = agent.possibleLiquidationTransition(timestamp);
+    const result: AgentPriceSimulation = {
+        agentVault: agent.address, status: agent.status, vaultCollateralRatioBIPS, poolCollateralRatioBIPS, newStatus,
+        currentStep: 0, liquidatableUBA: BN_ZERO, liquidationSteps: [],
+    };
+    if (newStatus !== AgentStatus.LIQUIDATION && newStatus !== AgentStatus.FULL_LIQUIDATION) return result;
+    const settings = agent.parent.settings;
+    const stepCount = settings.liquidationCollateralFactorBIPS.length;
+    for (let step = 0; step < stepCount; step++) {
+        result.liquidationSteps.push(estimateLiquidationStep(agent, newStatus, step, vaultCollateralRatioBIPS, poolCollateralRatioBIPS));
+    }
+    const elapsed = timestamp.sub(liquidationStartTimestamp(agent, timestamp));
+    result.currentStep = Math.min(Math.max(Math.floor(elapsed.toNumber() / Number(settings.liquidationStepSeconds)), 0), stepCount - 1);
+    result.liquidatableUBA = result.liquidationSteps[result.currentStep].liquidatableUBA;
+    return result;
+}
+
+function estimateLiquidationStep(agent: TrackedAgentState, status: AgentStatus, step: number, vaultCR: BN, poolCR: BN): LiquidationStepEstimate {
+    const settings = agent.parent.settings;
+    // as in LiquidationPaymentStrategy.currentLiquidationFactorBIPS (assuming both collaterals are valid)
+    const factorBIPS = toBN(settings.liquidationCollateralFactorBIPS[step]);
+    let vaultFactorBIPS = minBN(minBN(toBN(settings.liquidationFactorVaultCollateralBIPS[step]), factorBIPS), vaultCR);
+    let poolFactorBIPS = factorBIPS.sub(vaultFactorBIPS);
+    if (poolFactorBIPS.gt(poolCR)) {
+        poolFactorBIPS = poolCR;
+        vaultFactorBIPS = minBN(factorBIPS.sub(poolFactorBIPS), vaultCR);
+    }
+    // as in Liquidation._maxLiquidationAmountAMG
+    const mintedAMG = convertUBAToAmg(settings, agent.mintedUBA);
+    let liquidatableAMG = mintedAMG;
+    if (status !== AgentStatus.FULL_LIQUIDATION) {
+        const underwater = underwaterCollaterals(agent);
+        liquidatableAMG = maxBN(
+            maxLiquidationAmountAMG(agent, agent.vaultCollateral, vaultCR, vaultFactorBIPS, underwater.has(agent.vaultCollateral)),
+            maxLiquidationAmountAMG(agent, agent.poolWNatCollateral, poolCR, poolFactorBIPS, underwater.has(agent.poolWNatCollateral)));
+    }
+    const prices = agent.parent.prices;
+    return {
+        step, vaultFactorBIPS, poolFactorBIPS,
+        liquidatableUBA: convertAmgToUBA(settings, liquidatableAMG),
+        vaultRewardWei: prices.get(agent.vaultCollateral).convertAmgToTokenWei(liquidatableAMG.mul(vaultFactorBIPS).divn(MAX_BIPS)),
+        poolRewardWei: prices.get(agent.poolWNatCollateral).convertAmgToTokenWei(liquidatableAMG.mul(poolFactorBIPS).divn(MAX_BIPS)),
+    };
+}
+
+function maxLiquidationAmountAMG(agent: TrackedAgentState, collateral: CollateralType, collateralRatioBIPS: BN, factorBIPS: BN, underwater: boolean) {
+    const settings = agent.parent.settings;
+    const mintedAMG = convertUBAToAmg(settings, agent.mintedUBA);
+    const targetRatioBIPS = toBN(underwater ? collateral.safetyMinCollateralRatioBIPS : collateral.minCollateralRatioBIPS);
+    if (targetRatioBIPS.lte(collateralRatioBIPS)) return BN_ZERO;
+    if (collateralRatioBIPS.lte(factorBIPS)) return mintedAMG;
+    const lotSizeAMG = toBN(settings.lotSizeAMG);
+    const denominator = targetRatioBIPS.sub(factorBIPS);
+    const liquidatedAMG = mintedAMG.mul(targetRatioBIPS.sub(collateralRatioBIPS)).add(denominator.subn(1)).div(denominator);   // round up
+    const liquidatedLotsAMG = liquidatedAMG.add(lotSizeAMG.subn(1)).div(lotSizeAMG).mul(lotSizeAMG);                        // round up to whole lots
+    return minBN(liquidatedLotsAMG, mintedAMG);
+}
+
+/**
+ * The collaterals in the most severe liquidation phase are underwater (the contract fixes this set when liquidation starts,
+ * so for agents already in liquidation this is an approximation).
+ */
+function underwaterCollaterals(agent: TrackedAgentState) {
+    const phases = new Map<CollateralType, LiquidationPhase>();
+    for (const collateral of [agent.vaultCollateral, agent.poolWNatCollateral]) {
+        phases.set(collateral, liquidationPhase(agent.collateralRatioBIPS(collateral), collateral));
+    }
+    const maxPhase = Math.max(...phases.values());
+    return new Set(Array.from(phases.keys()).filter(collateral => phases.get(collateral) === maxPhase));
+}
+
+function liquidationPhase(collateralRatioBIPS: BN, collateral: CollateralType) {
+    if (collateralRatioBIPS.gte(toBN(collateral.minCollateralRatioBIPS))) return LiquidationPhase.NONE;
+    if (collateralRatioBIPS.gte(toBN(collateral.ccbMinCollateralRatioBIPS))) return LiquidationPhase.CCB;
+    return LiquidationPhase.LIQUIDATION;
+}
+
+function liquidationStartTimestamp(agent: TrackedAgentState, timestamp: BN) {
+    if (agent.status === AgentStatus.LIQUIDATION || agent.status === AgentStatus.FULL_LIQUIDATION) {
+        return agent.liquidationStartTimestamp;
+    }
+    // liquidation after expired CCB counts steps from the end of CCB time
+    if (agent.status === AgentStatus.CCB) {
+        const ccbEndTimestamp = agent.ccbStartTimestamp.add(toBN(agent.parent.settings.ccbTimeSeconds));
+        return minBN(ccbEndTimestamp, timestamp);
+    }
+    return timestamp;
+}
@@ -1,12 +1,15 @@
 import { AssetManagerSettings, CollateralType, CollateralClass } from "../fasset/AssetManagerTypes";
 import { IAssetContext } from "../fasset/IAssetContext";
-import { requireNotNull } from "../utils/helpers";
+import { MAX_BIPS, requireNotNull, toBN } from "../utils/helpers";
 import { CollateralIndexedList, CollateralTypeId, isPoolCollateral } from "./CollateralIndexedList";
 import { CollateralPrice } from "./CollateralPrice";
 import { TokenPrice, TokenPriceReader } from "./TokenPrice";
 
 export type StablecoinPrices = { [tokenAddress: string]: TokenPrice };
 
+// relative price changes per ftso symbol, e.g. `{ XRP: 0.2 }` for XRP price +20%
+export type PriceChanges = { [ftsoSymbol: string]: number };
+
 export class Prices {
     constructor(
         public collateralPrices: CollateralIndexedList<CollateralPrice>,
@@ -29,6 +32,31 @@ export class Prices {
         return this.collateralPrices.get(CollateralClass.POOL, token);
     }
 
+    /**
+     * Hypothetical prices, with every asset and token price whose ftso symbol appears in `changes` moved by the relative change.
+     */
+    withPriceChanges(settings: AssetManagerSettings, changes: PriceChanges) {
+        for (const [symbol, change] of Object.entries(changes)) {
+            // also rejects NaN
+            if (!(change > -1)) {
+                throw new Error(`Invalid price change ${change} for ${symbol}: the price must stay positive`);
+            }
+        }
+        const changePrice = (price: TokenPrice, symbol: string) => {
+            const change = changes[symbol];
+            if (change == null) return price;
+            const factorBIPS = toBN(Math.round((1 + change) * MAX_BIPS));
+            return new TokenPrice(price.price.mul(factorBIPS).divn(MAX_BIPS), price.timestamp, price.decimals);
+        };
+        const collateralPrices = new CollateralIndexedList<CollateralPrice>();
+        for (const cp of this.collateralPrices.list) {
+            const assetPrice = changePrice(cp.assetPrice, cp.collateral.assetFtsoSymbol);
+            const tokenPrice = cp.tokenPrice && changePrice(cp.tokenPrice, cp.collateral.tokenFtsoSymbol);
+            collateralPrices.set(cp.collateral, CollateralPrice.forTokenPrices(settings, cp.collateral, assetPrice, tokenPrice));
+        }
+        return new Prices(collateralPrices);
+    }
+
     toString() {
         const prices: Map<string, number> = new Map();
         for (const cp of this.collateralPrices.list) {
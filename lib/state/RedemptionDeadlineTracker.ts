@@ -0,0 +1,190 @@
+import { RedemptionRequested } from "../../typechain-truffle/IIAssetManager";
+import { AssetManagerEvents } from "../fasset/IAssetContext";
+import { ExtractedEventArgs } from "../utils/events/common";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { EventSubscription, TriggerableEvent } from "../utils/events/ScopedEvents";
+import { filterStackTrace, getOrCreate, multimapAdd, multimapDelete, toBN } from "../utils/helpers";
+import { TrackedState } from "./TrackedState";
+
+export enum RedemptionDeadlineStatus {
+    OPEN = 'open',                      // payment deadline is not near yet
+    APPROACHING = 'approaching',        // less than `approachingDeadlineBlocks` blocks left before `lastUnderlyingBlock`
+    EXPIRED = 'expired',                // both payment deadlines passed - a payment now would be illegal
+    DEFAULTABLE = 'defaultable',        // the first block after deadlines is finalized, so non-payment can be proved
+}
+
+export interface TrackedRedemption {
+    requestId: BN;
+    agentVault: string;
+    redeemer: string;
+    paymentAddress: string;
+    paymentReference: string;
+    valueUBA: BN;
+    feeUBA: BN;
+    firstUnderlyingBlock: BN;
+    lastUnderlyingBlock: BN;
+    lastUnderlyingTimestamp: BN;
+    rejected: boolean;      // rejected by the agent (handshake), waiting for takeover or default
+    status: RedemptionDeadlineStatus;
+    expiredAtBlock?: number;
+}
+
+/**
+ * Keeps every open redemption request with its payment deadlines and triggers events as the underlying chain approaches and passes them.
+ */
+export class RedemptionDeadlineTracker {
+    constructor(
+        public state: TrackedState,
+        public approachingDeadlineBlocks: number = 10,
+    ) {
+        this.registerHandlers();
+    }
+
+    redemptions = new Map<string, TrackedRedemption>();                   // requestId => redemption
+    redemptionsByAgent = new Map<string, Set<TrackedRedemption>>();       // agentVault => redemptions
+    redemptionsByRedeemer = new Map<string, Set<TrackedRedemption>>();    // redeemer => redemptions
+
+    private subscriptions = new Map<TrackedRedemption, EventSubscription[]>();
+
+    // synthetic events
+    approachingDeadline = new TriggerableEvent<TrackedRedemption>(this.state.eventQueue);
+    expired = new TriggerableEvent<TrackedRedemption>(this.state.eventQueue);
+    defaultable = new TriggerableEvent<TrackedRedemption>(this.state.eventQueue);
+    closed = new TriggerableEvent<TrackedRedemption>(this.state.eventQueue);
+
+    registerHandlers() {
+        this.assetManagerEvent('RedemptionRequested').subscribe(args => this.handleRedemptionRequested(args));
+        this.assetManagerEvent('RedemptionRequestRejected').subscribe(args => {
+            const redemption = this.getRedemption(args.requestId);
+            if (redemption) redemption.rejected = true;
+        });
+        this.assetManagerEvent('RedemptionRequestTakenOver').subscribe(args => {
+            // the taken over part continues as a new request (with its own RedemptionRequested event)
+            const redemption = this.getRedemption(args.requestId);
+            if (redemption == null) return;
+            redemption.valueUBA = redemption.valueUBA.sub(toBN(args.valueTakenOverUBA));
+            if (redemption.valueUBA.lten(0)) this.closeRedemption(redemption);
+        });
+        this.assetManagerEvent('RedemptionPerformed').subscribe(args => this.closeRedemptionWithId(args.requestId));
+        this.assetManagerEvent('RedemptionDefault').subscribe(args => this.closeRedemptionWithId(args.requestId));
+        this.assetManagerEvent('RedemptionPaymentBlocked').subscribe(args => this.closeRedemptionWithId(args.requestId));
+        this.assetManagerEvent('RedemptionPaymentFailed').subscribe(args => this.closeRedemptionWithId(args.requestId));
+        this.assetManagerEvent('RedemptionRejected').subscribe(args => this.closeRedemptionWithId(args.requestId));
+    }
+
+    // queries
+
+    getRedemption(requestId: BN | string) {
+        return this.redemptions.get(String(requestId));
+    }
+
+    redemptionsForAgent(agentVault: string, status?: RedemptionDeadlineStatus) {
+        return this.filterByStatus(this.redemptionsByAgent.get(agentVault), status);
+    }
+
+    redemptionsForRedeemer(redeemer: string, status?: RedemptionDeadlineStatus) {
+        return this.filterByStatus(this.redemptionsByRedeemer.get(redeemer), status);
+    }
+
+    // tracking
+
+    handleRedemptionRequested(args: EvmEventArgs<RedemptionRequested>) {
+        const redemption: TrackedRedemption = {
+            requestId: toBN(args.requestId),
+            agentVault: args.agentVault,
+            redeemer: args.redeemer,
+            paymentAddress: args.paymentAddress,
+            paymentReference: args.paymentReference,
+            valueUBA: toBN(args.valueUBA),
+            feeUBA: toBN(args.feeUBA),
+            firstUnderlyingBlock: toBN(args.firstUnderlyingBlock),
+            lastUnderlyingBlock: toBN(args.lastUnderlyingBlock),
+            lastUnderlyingTimestamp: toBN(args.lastUnderlyingTimestamp),
+            rejected: false,
+            status: RedemptionDeadlineStatus.OPEN,
+        };
+        this.redemptions.set(String(redemption.requestId), redemption);
+        multimapAdd(this.redemptionsByAgent, redemption.agentVault, redemption);
+        multimapAdd(this.redemptionsByRedeemer, redemption.redeemer, redemption);
+        const lastBlock = redemption.lastUnderlyingBlock.toNumber();
+        this.addSubscription(redemption, this.chainEvents.blockHeightReachedEvent(Math.max(lastBlock - this.approachingDeadlineBlocks, 0)).subscribe(() => {
+            if (redemption.status !== RedemptionDeadlineStatus.OPEN) return;
+            redemption.status = RedemptionDeadlineStatus.APPROACHING;
+            this.approachingDeadline.trigger(redemption);
+        }));
+        this.watchExpiry(redemption, lastBlock + 1);
+    }
+
+    private watchExpiry(redemption: TrackedRedemption, height: number) {
+        this.addSubscription(redemption, this.chainEvents.blockHeightReachedEvent(height).subscribe((blockId) => {
+            this.checkExpiry(redemption, blockId.number)
+                .catch(error => {
+                    // try again at the next block
+                    this.state.logger?.log(`!!! REDEMPTION ${redemption.requestId} EXPIRY CHECK ERROR at block ${blockId.number}: ${filterStackTrace(error)}`);
+                    if (this.redemptions.has(String(redemption.requestId))) {
+                        this.watchExpiry(redemption, blockId.number + 1);
+                    }
+                });
+        }));
+    }
+
+    private async checkExpiry(redemption: TrackedRedemption, blockNumber: number) {
+        // the payment is only illegal after both the last block and the last timestamp have passed
+        const block = await this.state.context.chain.getBlockAt(blockNumber);
+        if (!this.redemptions.has(String(redemption.requestId))) return;    // closed in the meantime
+        if (block == null || block.timestamp <= redemption.lastUnderlyingTimestamp.toNumber()) {
+            this.watchExpiry(redemption, blockNumber + 1);
+            return;
+        }
+        redemption.status = RedemptionDeadlineStatus.EXPIRED;
+        redemption.expiredAtBlock = block.number;
+        this.expired.trigger(redemption);
+        const finalizationBlocks = this.state.context.chain.finalizationBlocks;
+        if (finalizationBlocks > 0) {
+            this.addSubscription(redemption, this.chainEvents.blockHeightReachedEvent(block.number + finalizationBlocks)
+                .subscribe(() => this.markDefaultable(redemption)));
+        } else {
+            this.markDefaultable(redemption);
+        }
+    }
+
+    private markDefaultable(redemption: TrackedRedemption) {
+        redemption.status = RedemptionDeadlineStatus.DEFAULTABLE;
+        this.defaultable.trigger(redemption);
+    }
+
+    private closeRedemptionWithId(requestId: BN) {
+        const redemption = this.getRedemption(requestId);
+        if (redemption) this.closeRedemption(redemption);
+    }
+
+    private closeRedemption(redemption: TrackedRedemption) {
+        for (const subscription of this.subscriptions.get(redemption) ?? []) {
+            subscription.unsubscribe();
+        }
+        this.subscriptions.delete(redemption);
+        this.redemptions.delete(String(redemption.requestId));
+        multimapDelete(this.redemptionsByAgent, redemption.agentVault, redemption);
+        multimapDelete(this.redemptionsByRedeemer, redemption.redeemer, redemption);
+        this.closed.trigger(redemption);
+    }
+
+    // helpers
+
+    private get chainEvents() {
+        return this.state.chainEvents;
+    }
+
+    private addSubscription(redemption: TrackedRedemption, subscription: EventSubscription) {
+        getOrCreate(this.subscriptions, redemption, () => []).push(subscription);
+    }
+
+    private filterByStatus(redemptions: Set<TrackedRedemption> | undefined, status?: RedemptionDeadlineStatus) {
+        const result = Array.from(redemptions ?? []);
+        return status != null ? result.filter(redemption => redemption.status === status) : result;
+    }
+
+    private assetManagerEvent<N extends AssetManagerEvents['name']>(event: N, filter?: Partial<ExtractedEventArgs<AssetManagerEvents, N>>) {
+        return this.state.truffleEvents.event(this.state.context.assetManager, event, filter).immediate();
+    }
+}
@@ -0,0 +1,129 @@
+import { existsSync, renameSync } from "fs";
+import { ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { HistoricalEvmEvents } from "../utils/events/HistoricalEvmEvents";
+import { loadJson, saveJson } from "../utils/json-bn";
+import { TrackedState, TrackedStateData } from "./TrackedState";
+
+export interface StateCheckpoint {
+    // last EVM block whose events are included in the checkpoint; replay should start at the next block
+    lastEvmBlock: number;
+    // last underlying block whose transactions are included in the checkpoint
+    lastUnderlyingBlock: number;
+    // tracked state (fasset supply and agents)
+    trackedState: TrackedStateData;
+    // actor-private data, indexed by actor's persistence key
+    actors: { [key: string]: unknown };
+}
+
+export interface ICheckpointStore {
+    // Return the last saved checkpoint or `null` if there is none.
+    load(): Promise<StateCheckpoint | null>;
+
+    // Save the checkpoint, replacing the previous one.
+    save(checkpoint: StateCheckpoint): Promise<void>;
+}
+
+export interface IPersistentActor<T = unknown> {
+    // Unique key under which the actor's data is stored in the checkpoint.
+    persistenceKey: string;
+
+    // Return serializable actor-private data.
+    saveState(): T;
+
+    // Restore actor-private data from the value returned by `saveState` (after JSON round trip, BN values are strings).
+    restoreState(data: T): void;
+
+    // If defined, it is called for every underlying transaction mined after the checkpoint.
+    handleUnderlyingTransaction?(transaction: ITransaction): void;
+}
+
+export class JsonFileCheckpointStore implements ICheckpointStore {
+    constructor(
+        public file: string,
+    ) { }
+
+    async load(): Promise<StateCheckpoint | null> {
+        if (!existsSync(this.file)) return null;
+        return loadJson(this.file) as StateCheckpoint;
+    }
+
+    async save(checkpoint: StateCheckpoint): Promise<void> {
+        // write to temporary file first, so that a crash while writing doesn't corrupt the existing checkpoint
+        const tmpFile = `${this.file}.tmp`;
+        saveJson(tmpFile, checkpoint, 2);
+        renameSync(tmpFile, this.file);
+    }
+}
+
+/**
+ * Saves and restores tracked state together with actor-private data.
+ * Usage on startup:
+ *  - load the checkpoint from the store,
+ *  - create `HistoricalEvmEvents` with `fromBlock = checkpoint.lastEvmBlock + 1` and use it as the tracked state's event source,
+ *  - call `TrackedState.initialize(checkpoint.trackedState)`,
+ *  - create actors and immediately (before any events are processed) call `resume(checkpoint, evmEvents)`,
+ *  - start the live mode with `evmEvents.start()`.
+ */
+export class StateCheckpointer {
+    constructor(
+        public state: TrackedState,
+        public store: ICheckpointStore,
+        public actors: IPersistentActor[] = [],
+    ) { }
+
+    // Should be called when the event queue is empty, so that the state matches the recorded block numbers.
+    async save() {
+        const checkpoint: StateCheckpoint = {
+            lastEvmBlock: await web3.eth.getBlockNumber(),
+            lastUnderlyingBlock: await this.state.context.chain.getBlockHeight(),
+            trackedState: this.state.saveState(),
+            actors: {},
+        };
+        for (const actor of this.actors) {
+            checkpoint.actors[actor.persistenceKey] = actor.saveState();
+        }
+        await this.store.save(checkpoint);
+        return checkpoint;
+    }
+
+    /**
+     * Restore actor-private data and process everything that happened after the checkpoint: first the EVM events
+     * (in the (blockNumber, logIndex) order, as `evmEvents` dispatches them), then the underlying transactions.
+     * Since the underlying transactions come after all the EVM events, a payment that was confirmed while the bot was stopped
+     * may cause an unnecessary challenge, which is rejected by the contract (as when the challenger starts tracking later).
+     */
+    async resume(checkpoint: StateCheckpoint, evmEvents: HistoricalEvmEvents) {
+        if (evmEvents.lastProcessedBlock !== checkpoint.lastEvmBlock) {
+            throw new Error(`EVM events must be replayed from block ${checkpoint.lastEvmBlock + 1}`);
+        }
+        this.restoreActors(checkpoint);
+        await evmEvents.replay();
+        this.state.eventQueue.runAll();
+        await this.replayUnderlyingTransactions(checkpoint.lastUnderlyingBlock + 1);
+    }
+
+    restoreActors(checkpoint: StateCheckpoint) {
+        for (const actor of this.actors) {
+            const data = checkpoint.actors[actor.persistenceKey];
+            if (data !== undefined) {
+                actor.restoreState(data);
+            }
+        }
+    }
+
+    async replayUnderlyingTransactions(fromBlock: number) {
+        const chain = this.state.context.chain;
+        const blockHeight = await chain.getBlockHeight();
+        for (let blockNumber = fromBlock; blockNumber <= blockHeight; blockNumber++) {
+            const block = await chain.getBlockAt(blockNumber);
+            if (block == null) continue;
+            for (const txHash of block.transactions) {
+                const transaction = await chain.getTransaction(txHash);
+                if (transaction == null) continue;
+                for (const actor of this.actors) {
+                    actor.handleUnderlyingTransaction?.(transaction);
+                }
+            }
+        }
+    }
+}
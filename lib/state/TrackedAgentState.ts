@@ -3,19 +3,46 @@ import {
     RedeemedInCollateral, RedemptionDefault, RedemptionPaymentBlocked, RedemptionPaymentFailed, RedemptionPerformed, RedemptionRequested, RedemptionTicketCreated, RedemptionTicketDeleted,
     RedemptionTicketUpdated, SelfClose, SelfMint, UnderlyingBalanceToppedUp, UnderlyingWithdrawalAnnounced, UnderlyingWithdrawalCancelled, UnderlyingWithdrawalConfirmed
 } from "../../typechain-truffle/IIAssetManager";
+import { IAgentVaultInstance } from "../../typechain-truffle";
 import { AgentInfo, AgentSetting, AgentStatus, CollateralType, CollateralClass } from "../fasset/AssetManagerTypes";
 import { roundUBAToAmg } from "../fasset/Conversions";
+import { AgentVaultEvents } from "../fasset/IAssetContext";
 import { EvmEventArgs } from "../utils/events/IEvmEvents";
 import { EventArgs } from "../utils/events/common";
-import { BN_ONE, BN_ZERO, BNish, MAX_BIPS, formatBN, maxBN, toBN } from "../utils/helpers";
+import { ContractWithEvents } from "../utils/events/truffle";
+import { BN_ONE, BN_ZERO, BNish, MAX_BIPS, formatBN, maxBN, minBN, toBN } from "../utils/helpers";
 import { ILogger } from "../utils/logging";
 import { Prices } from "./Prices";
 import { TrackedState } from "./TrackedState";
 
+const IAgentVault = artifacts.require("IAgentVault");
+
 const MAX_UINT256 = toBN(1).shln(256).subn(1);
 
+export async function agentVaultContract(agentVaultAddress: string) {
+    return await IAgentVault.at(agentVaultAddress) as ContractWithEvents<IAgentVaultInstance, AgentVaultEvents>;
+}
+
 export type InitialAgentData = EventArgs<AgentVaultCreated>;
 
+// Serializable agent state, as stored in checkpoints (BN values may be deserialized as strings).
+export interface TrackedAgentStateData {
+    initialData: InitialAgentData;
+    status: AgentStatus;
+    publiclyAvailable: boolean;
+    totalVaultCollateralWei: BNish;
+    totalPoolCollateralNATWei: BNish;
+    ccbStartTimestamp: BNish;
+    liquidationStartTimestamp: BNish;
+    announcedUnderlyingWithdrawalId: BNish;
+    reservedUBA: BNish;
+    mintedUBA: BNish;
+    redeemingUBA: BNish;
+    poolRedeemingUBA: BNish;
+    dustUBA: BNish;
+    underlyingBalanceUBA: BNish;
+}
+
 export class TrackedAgentState {
     constructor(
         public parent: TrackedState,
@@ -107,6 +134,66 @@ export class TrackedAgentState {
         this.underlyingBalanceUBA = toBN(agentInfo.underlyingBalanceUBA);
     }
 
+    // persistence
+
+    initialData(): InitialAgentData {
+        return {
+            agentVault: this.address,
+            owner: this.owner,
+            creationData: {
+                collateralPool: this.collateralPoolAddress,
+                collateralPoolToken: this.collateralPoolTokenAddress,
+                underlyingAddress: this.underlyingAddressString,
+                vaultCollateralToken: this.vaultCollateral.token,
+                poolWNatToken: this.poolWNatCollateral.token,
+                feeBIPS: this.feeBIPS,
+                poolFeeShareBIPS: this.poolFeeShareBIPS,
+                mintingVaultCollateralRatioBIPS: this.mintingVaultCollateralRatioBIPS,
+                mintingPoolCollateralRatioBIPS: this.mintingPoolCollateralRatioBIPS,
+                buyFAssetByAgentFactorBIPS: this.buyFAssetByAgentFactorBIPS,
+                poolExitCollateralRatioBIPS: this.poolExitCollateralRatioBIPS,
+                poolTopupCollateralRatioBIPS: this.poolTopupCollateralRatioBIPS,
+                poolTopupTokenPriceFactorBIPS: this.poolTopupTokenPriceFactorBIPS,
+                handshakeType: this.handshakeType,
+            }
+        };
+    }
+
+    saveState(): TrackedAgentStateData {
+        return {
+            initialData: this.initialData(),
+            status: this.status,
+            publiclyAvailable: this.publiclyAvailable,
+            totalVaultCollateralWei: this.totalVaultCollateralWei,
+            totalPoolCollateralNATWei: this.totalPoolCollateralNATWei,
+            ccbStartTimestamp: this.ccbStartTimestamp,
+            liquidationStartTimestamp: this.liquidationStartTimestamp,
+            announcedUnderlyingWithdrawalId: this.announcedUnderlyingWithdrawalId,
+            reservedUBA: this.reservedUBA,
+            mintedUBA: this.mintedUBA,
+            redeemingUBA: this.redeemingUBA,
+            poolRedeemingUBA: this.poolRedeemingUBA,
+            dustUBA: this.dustUBA,
+            underlyingBalanceUBA: this.underlyingBalanceUBA,
+        };
+    }
+
+    restoreState(data: TrackedAgentStateData) {
+        this.status = Number(data.status);
+        this.publiclyAvailable = data.publiclyAvailable;
+        this.totalVaultCollateralWei = toBN(data.totalVaultCollateralWei);
+        this.totalPoolCollateralNATWei = toBN(data.totalPoolCollateralNATWei);
+        this.ccbStartTimestamp = toBN(data.ccbStartTimestamp);
+        this.liquidationStartTimestamp = toBN(data.liquidationStartTimestamp);
+        this.announcedUnderlyingWithdrawalId = toBN(data.announcedUnderlyingWithdrawalId);
+        this.reservedUBA = toBN(data.reservedUBA);
+        this.mintedUBA = toBN(data.mintedUBA);
+        this.redeemingUBA = toBN(data.redeemingUBA);
+        this.poolRedeemingUBA = toBN(data.poolRedeemingUBA);
+        this.dustUBA = toBN(data.dustUBA);
+        this.underlyingBalanceUBA = toBN(data.underlyingBalanceUBA);
+    }
+
     // handlers: agent availability
 
     handleAgentAvailable(args: EvmEventArgs<AgentAvailable>) {
@@ -300,9 +387,13 @@ export class TrackedAgentState {
         return collateral.collateralClass === CollateralClass.VAULT ? this.totalVaultCollateralWei : this.totalPoolCollateralNATWei;
     }
 
-    private collateralRatioForPriceBIPS(prices: Prices, collateral: CollateralType) {
+    private backedUBA(collateral: CollateralType) {
         const redeemingUBA = collateral.collateralClass === CollateralClass.VAULT ? this.redeemingUBA : this.poolRedeemingUBA;
-        const totalUBA = this.reservedUBA.add(this.mintedUBA).add(redeemingUBA);
+        return this.reservedUBA.add(this.mintedUBA).add(redeemingUBA);
+    }
+
+    private collateralRatioForPriceBIPS(prices: Prices, collateral: CollateralType) {
+        const totalUBA = this.backedUBA(collateral);
         if (totalUBA.isZero()) return MAX_UINT256;
         const price = prices.get(collateral);
         const backingCollateralWei = price.convertUBAToTokenWei(totalUBA);
@@ -316,6 +407,19 @@ export class TrackedAgentState {
         return maxBN(ratio, ratioFromTrusted);
     }
 
+    /**
+     * The smallest collateral balance (in token wei) for which `collateralRatioBIPS(collateral)` is at least `ratioBIPS`.
+     */
+    requiredCollateralWei(collateral: CollateralType, ratioBIPS: BN) {
+        const totalUBA = this.backedUBA(collateral);
+        const requiredForPrices = (prices: Prices) => {
+            const backingCollateralWei = prices.get(collateral).convertUBAToTokenWei(totalUBA);
+            return backingCollateralWei.mul(ratioBIPS).addn(MAX_BIPS - 1).divn(MAX_BIPS);   // round up
+        };
+        // collateral ratio is the max of ratios at ftso and trusted prices
+        return minBN(requiredForPrices(this.parent.prices), requiredForPrices(this.parent.trustedPrices));
+    }
+
     private possibleLiquidationTransitionForCollateral(collateral: CollateralType, timestamp: BN) {
         const cr = this.collateralRatioBIPS(collateral);
         const settings = this.parent.settings;
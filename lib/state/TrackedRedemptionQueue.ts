@@ -0,0 +1,115 @@
+import { RedemptionTicketCreated, RedemptionTicketDeleted, RedemptionTicketUpdated } from "../../typechain-truffle/IIAssetManager";
+import { RedemptionSimulation, simulateRedemption } from "../fasset/RedemptionSimulation";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { BN_ZERO, BNish, getOrCreate, toBN } from "../utils/helpers";
+import { TrackedState } from "./TrackedState";
+
+const QUEUE_PAGE_SIZE = 100;
+
+export interface TrackedRedemptionTicket {
+    redemptionTicketId: BN;
+    agentVault: string;
+    ticketValueUBA: BN;
+}
+
+export interface RedemptionTicketData {
+    redemptionTicketId: BNish;
+    agentVault: string;
+    ticketValueUBA: BNish;
+}
+
+/**
+ * In-memory mirror of the global and per-agent redemption queues, kept in ticket id order (the contract always appends new tickets).
+ */
+export class TrackedRedemptionQueue {
+    constructor(
+        public parent: TrackedState,
+    ) {
+    }
+
+    tickets = new Map<string, TrackedRedemptionTicket>();                         // ticketId => ticket, in queue order
+    agentTickets = new Map<string, Map<string, TrackedRedemptionTicket>>();      // agentVault => (ticketId => ticket), in queue order
+
+    // init
+
+    async loadFromChain() {
+        this.clear();
+        let firstTicketId: BNish = 0;
+        do {
+            const { 0: page, 1: nextTicketId } = await this.parent.context.assetManager.redemptionQueue(firstTicketId, QUEUE_PAGE_SIZE);
+            for (const ticket of page) {
+                this.addTicket(ticket.agentVault, ticket.redemptionTicketId, ticket.ticketValueUBA);
+            }
+            firstTicketId = nextTicketId;
+        } while (!toBN(firstTicketId).isZero());
+    }
+
+    saveState(): RedemptionTicketData[] {
+        return this.queue().map(ticket => ({ ...ticket }));
+    }
+
+    restoreState(data: RedemptionTicketData[]) {
+        this.clear();
+        for (const ticket of data) {
+            this.addTicket(ticket.agentVault, ticket.redemptionTicketId, ticket.ticketValueUBA);
+        }
+    }
+
+    // handlers
+
+    handleRedemptionTicketCreated(args: EvmEventArgs<RedemptionTicketCreated>): void {
+        this.addTicket(args.agentVault, args.redemptionTicketId, args.ticketValueUBA);
+    }
+
+    handleRedemptionTicketUpdated(args: EvmEventArgs<RedemptionTicketUpdated>): void {
+        const ticket = this.tickets.get(String(args.redemptionTicketId));
+        if (ticket) ticket.ticketValueUBA = toBN(args.ticketValueUBA);
+    }
+
+    handleRedemptionTicketDeleted(args: EvmEventArgs<RedemptionTicketDeleted>): void {
+        const id = String(args.redemptionTicketId);
+        const ticket = this.tickets.get(id);
+        if (ticket == null) return;
+        this.tickets.delete(id);
+        const agentQueue = this.agentTickets.get(ticket.agentVault);
+        agentQueue?.delete(id);
+        if (agentQueue?.size === 0) this.agentTickets.delete(ticket.agentVault);
+    }
+
+    // queries
+
+    /**
+     * The global redemption queue, as returned by `redemptionQueue`.
+     */
+    queue(): TrackedRedemptionTicket[] {
+        return Array.from(this.tickets.values());
+    }
+
+    /**
+     * The agent's redemption queue, as returned by `agentRedemptionQueue`.
+     */
+    agentQueue(agentVault: string): TrackedRedemptionTicket[] {
+        return Array.from(this.agentTickets.get(agentVault)?.values() ?? []);
+    }
+
+    /**
+     * Predict the redemption requests that `redeem(lots)` would create, without paging through the contract's queue.
+     */
+    predictRedemption(lots: BNish, executorFeeNatWei: BNish = 0): RedemptionSimulation {
+        return simulateRedemption(this.parent.settings, this.tickets.values(),
+            agentVault => this.parent.getAgent(agentVault)?.dustUBA ?? BN_ZERO, lots, executorFeeNatWei);
+    }
+
+    // helpers
+
+    private addTicket(agentVault: string, redemptionTicketId: BNish, ticketValueUBA: BNish) {
+        const ticket: TrackedRedemptionTicket = { redemptionTicketId: toBN(redemptionTicketId), agentVault, ticketValueUBA: toBN(ticketValueUBA) };
+        this.tickets.set(String(ticket.redemptionTicketId), ticket);
+        getOrCreate(this.agentTickets, agentVault, () => new Map()).set(String(ticket.redemptionTicketId), ticket);
+    }
+
+    private clear() {
+        this.tickets.clear();
+        this.agentTickets.clear();
+    }
+}
@@ -1,18 +1,28 @@
 import { AgentStatus, AssetManagerSettings, CollateralType } from "../fasset/AssetManagerTypes";
 import { AssetManagerEvents, IAssetContext } from "../fasset/IAssetContext";
 import { UnderlyingChainEvents } from "../underlying-chain/UnderlyingChainEvents";
+import { deepCopyWithObjectCreate } from "../utils/deepCopy";
 import { EventFormatter } from "../utils/events/EventFormatter";
 import { IEvmEvents } from "../utils/events/IEvmEvents";
 import { EventExecutionQueue, TriggerableEvent } from "../utils/events/ScopedEvents";
 import { EvmEvent, ExtractedEventArgs } from "../utils/events/common";
-import { BN_ZERO, toBN } from "../utils/helpers";
+import { BN_ZERO, BNish, toBN } from "../utils/helpers";
 import { stringifyJson } from "../utils/json-bn";
 import { ILogger } from "../utils/logging";
 import { web3DeepNormalize, web3Normalize } from "../utils/web3normalize";
 import { CollateralList, isPoolCollateral } from "./CollateralIndexedList";
-import { Prices } from "./Prices";
+import { PriceChanges, Prices } from "./Prices";
 import { tokenContract } from "./TokenPrice";
-import { InitialAgentData, TrackedAgentState } from "./TrackedAgentState";
+import { InitialAgentData, TrackedAgentState, TrackedAgentStateData } from "./TrackedAgentState";
+import { RedemptionTicketData, TrackedRedemptionQueue } from "./TrackedRedemptionQueue";
+
+// Serializable part of the tracked state, as stored in checkpoints.
+// Settings, collaterals and prices are not included - they are always read from the chain on initialization.
+export interface TrackedStateData {
+    fAssetSupply: BNish;
+    agents: TrackedAgentStateData[];
+    redemptionQueue?: RedemptionTicketData[];
+}
 
 export class TrackedState {
     constructor(
@@ -41,6 +51,9 @@ export class TrackedState {
     agentsByUnderlying: Map<string, TrackedAgentState> = new Map();    // map underlying_address => agent state
     agentsByPool: Map<string, TrackedAgentState> = new Map();          // map pool_address => agent state
 
+    // redemption queue mirror
+    redemptionQueue = new TrackedRedemptionQueue(this);
+
     // settings
     logger?: ILogger;
     deleteDestroyedAgents = true;
@@ -49,7 +62,8 @@ export class TrackedState {
     pricesUpdated = new TriggerableEvent<void>(this.eventQueue);
 
     // async initialization part
-    async initialize() {
+    // if `savedState` is given, fAsset supply and agents are restored from it instead of being read from the chain
+    async initialize(savedState?: TrackedStateData) {
         this.settings = await this.context.assetManager.getSettings();
         const collateralTypes = await this.context.assetManager.getCollateralTypes();
         for (const collateralToken of collateralTypes) {
@@ -60,10 +74,36 @@ export class TrackedState {
             }
         }
         [this.prices, this.trustedPrices] = await this.getPrices();
-        this.fAssetSupply = await this.context.fAsset.totalSupply();
+        if (savedState) {
+            this.restoreState(savedState);
+        } else {
+            this.fAssetSupply = await this.context.fAsset.totalSupply();
+        }
+        if (savedState?.redemptionQueue == null) {
+            await this.redemptionQueue.loadFromChain();
+        }
         this.registerHandlers();
     }
 
+    saveState(): TrackedStateData {
+        return {
+            fAssetSupply: this.fAssetSupply,
+            agents: Array.from(this.agents.values()).map(agent => agent.saveState()),
+            redemptionQueue: this.redemptionQueue.saveState(),
+        };
+    }
+
+    private restoreState(data: TrackedStateData) {
+        this.fAssetSupply = toBN(data.fAssetSupply);
+        for (const agentData of data.agents) {
+            const agent = this.createAgentVault(agentData.initialData);
+            agent.restoreState(agentData);
+        }
+        if (data.redemptionQueue) {
+            this.redemptionQueue.restoreState(data.redemptionQueue);
+        }
+    }
+
     async getPrices(): Promise<[Prices, Prices]> {
         return await Prices.getPrices(this.context, this.settings, this.collaterals);
     }
@@ -163,6 +203,9 @@ export class TrackedState {
         this.assetManagerEvent('RedemptionTicketCreated').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionTicketCreated(args));
         this.assetManagerEvent('RedemptionTicketUpdated').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionTicketUpdated(args));
         this.assetManagerEvent('RedemptionTicketDeleted').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionTicketDeleted(args));
+        this.assetManagerEvent('RedemptionTicketCreated').subscribe(args => this.redemptionQueue.handleRedemptionTicketCreated(args));
+        this.assetManagerEvent('RedemptionTicketUpdated').subscribe(args => this.redemptionQueue.handleRedemptionTicketUpdated(args));
+        this.assetManagerEvent('RedemptionTicketDeleted').subscribe(args => this.redemptionQueue.handleRedemptionTicketDeleted(args));
         // track dust
         this.assetManagerEvent('DustChanged').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleDustChanged(args));
         // liquidation
@@ -246,6 +289,32 @@ export class TrackedState {
         return new TrackedAgentState(this, data);
     }
 
+    /**
+     * Detached copy of the state with hypothetical prices, for what-if calculations.
+     * The copy has its own event queue and no event subscriptions, so it gets stale when the real state changes.
+     */
+    withPriceChanges(changes: PriceChanges): TrackedState {
+        const copy = new TrackedState(this.context, this.truffleEvents, this.chainEvents, this.eventFormatter, new EventExecutionQueue());
+        copy.fAssetSupply = this.fAssetSupply;
+        copy.settings = this.settings;
+        copy.collaterals = this.collaterals;
+        copy.poolWNatColateral = this.poolWNatColateral;
+        copy.prices = this.prices.withPriceChanges(this.settings, changes);
+        copy.trustedPrices = this.trustedPrices.withPriceChanges(this.settings, changes);
+        copy.logger = this.logger;
+        copy.deleteDestroyedAgents = this.deleteDestroyedAgents;
+        // copied agents' `parent` must point to the copy
+        const copiedObjects = new Map<object, object>([[this, copy]]);
+        for (const agent of this.agents.values()) {
+            const agentCopy = deepCopyWithObjectCreate(agent, copiedObjects);
+            copy.agents.set(agentCopy.address, agentCopy);
+            copy.agentsByUnderlying.set(agentCopy.underlyingAddressString, agentCopy);
+            copy.agentsByPool.set(agentCopy.collateralPoolAddress, agentCopy);
+        }
+        copy.redemptionQueue.restoreState(this.redemptionQueue.saveState());
+        return copy;
+    }
+
     destroyAgent(address: string) {
         const agent = this.getAgent(address);
         if (agent && this.deleteDestroyedAgents) {
@@ -1,8 +1,8 @@
-import { AddressValidity, BalanceDecreasingTransaction, ConfirmedBlockHeightExists, MerkleTree, Payment, ReferencedPaymentNonexistence } from "@flarenetwork/state-connector-protocol";
+import { AddressValidity, ARBase, AttestationDefinitionStore, BalanceDecreasingTransaction, ConfirmedBlockHeightExists, MerkleTree, Payment, ReferencedPaymentNonexistence } from "@flarenetwork/state-connector-protocol";
 import { SourceId } from "./SourceId";
-import { IBlockChain, TxInputOutput } from "./interfaces/IBlockChain";
+import { IBlock, IBlockChain, IBlockId, ITransaction, TxInputOutput } from "./interfaces/IBlockChain";
 import { AttestationNotProved, AttestationProof, AttestationRequestId, IFlareDataConnectorClient, OptionalAttestationProof } from "./interfaces/IFlareDataConnectorClient";
-import { requireNotNull, ZERO_BYTES32 } from "../utils/helpers";
+import { expectErrors, getOrCreate, requireNotNull, ZERO_BYTES32 } from "../utils/helpers";
 
 export class AttestationHelperError extends Error {
     constructor(message: string) {
@@ -14,6 +14,50 @@ export function attestationProved(result: OptionalAttestationProof): result is A
     return typeof result === 'object' && result != null;
 }
 
+export type BatchProofRequest =
+    | { type: 'payment', transactionHash: string, sourceAddress: string | null, receivingAddress: string | null }
+    | { type: 'balanceDecreasingTransaction', transactionHash: string, sourceAddress: string }
+    | { type: 'referencedPaymentNonexistence', destinationAddress: string, paymentReference: string, amount: BN, startBlock: number, endBlock: number, endTimestamp: number, sourceAddressesRoot?: string };
+
+// the chain methods needed to build attestation requests
+type ChainLookups = Pick<IBlockChain, 'finalizationBlocks' | 'getTransaction' | 'getTransactionBlock' | 'getBlockAt' | 'getBlockHeight'>;
+
+// caches transaction and block lookups while building a batch of requests
+class ChainLookupCache implements ChainLookups {
+    constructor(
+        public chain: IBlockChain,
+    ) {}
+
+    finalizationBlocks = this.chain.finalizationBlocks;
+
+    private transactions = new Map<string, Promise<ITransaction | null>>();
+    private transactionBlocks = new Map<string, Promise<IBlockId | null>>();
+    private blocks = new Map<number, Promise<IBlock | null>>();
+
+    getTransaction(txHash: string) {
+        return getOrCreate(this.transactions, txHash, () => this.chain.getTransaction(txHash));
+    }
+
+    getTransactionBlock(txHash: string) {
+        return getOrCreate(this.transactionBlocks, txHash, () => this.chain.getTransactionBlock(txHash));
+    }
+
+    getBlockAt(blockNumber: number) {
+        return getOrCreate(this.blocks, blockNumber, () => this.chain.getBlockAt(blockNumber));
+    }
+
+    getBlockHeight() {
+        return this.chain.getBlockHeight();
+    }
+}
+
+let definitionStore: AttestationDefinitionStore | undefined;
+
+export function attestationDefinitionStore() {
+    definitionStore ??= new AttestationDefinitionStore();
+    return definitionStore;
+}
+
 function findAddressIndex(ios: TxInputOutput[], address: string | null, defaultValue: number) {
     if (address == null) return defaultValue;
     for (let i = 0; i < ios.length; i++) {
@@ -40,16 +84,21 @@ export class AttestationHelper {
     }
 
     async requestPaymentProof(transactionHash: string, sourceAddress: string | null, receivingAddress: string | null): Promise<AttestationRequestId | null> {
-        const transaction = await this.chain.getTransaction(transactionHash);
-        const block = await this.chain.getTransactionBlock(transactionHash);
+        const request = await this.paymentRequest(transactionHash, sourceAddress, receivingAddress);
+        return await this.client.submitRequest(request);
+    }
+
+    async paymentRequest(transactionHash: string, sourceAddress: string | null, receivingAddress: string | null, chain: ChainLookups = this.chain): Promise<Payment.Request> {
+        const transaction = await chain.getTransaction(transactionHash);
+        const block = await chain.getTransactionBlock(transactionHash);
         if (transaction == null || block == null) {
             throw new AttestationHelperError(`transaction not found ${transactionHash}`);
         };
-        const finalizationBlock = await this.chain.getBlockAt(block.number + this.chain.finalizationBlocks);
+        const finalizationBlock = await chain.getBlockAt(block.number + chain.finalizationBlocks);
         if (finalizationBlock == null) {
-            throw new AttestationHelperError(`finalization block not found (block ${block.number}, height ${await this.chain.getBlockHeight()})`);
+            throw new AttestationHelperError(`finalization block not found (block ${block.number}, height ${await chain.getBlockHeight()})`);
         }
-        const request: Payment.Request = {
+        return {
             attestationType: Payment.TYPE,
             sourceId: this.chainId,
             messageIntegrityCode: ZERO_BYTES32,
@@ -59,20 +108,24 @@ export class AttestationHelper {
                 utxo: String(findAddressIndex(transaction.outputs, receivingAddress, 0)),
             },
         };
-        return await this.client.submitRequest(request);
     }
 
     async requestBalanceDecreasingTransactionProof(transactionHash: string, sourceAddress: string): Promise<AttestationRequestId | null> {
-        const transaction = await this.chain.getTransaction(transactionHash);
-        const block = await this.chain.getTransactionBlock(transactionHash);
+        const request = await this.balanceDecreasingTransactionRequest(transactionHash, sourceAddress);
+        return await this.client.submitRequest(request);
+    }
+
+    async balanceDecreasingTransactionRequest(transactionHash: string, sourceAddress: string, chain: ChainLookups = this.chain): Promise<BalanceDecreasingTransaction.Request> {
+        const transaction = await chain.getTransaction(transactionHash);
+        const block = await chain.getTransactionBlock(transactionHash);
         if (transaction == null || block == null) {
             throw new AttestationHelperError(`transaction not found ${transactionHash}`);
         };
-        const finalizationBlock = await this.chain.getBlockAt(block.number + this.chain.finalizationBlocks);
+        const finalizationBlock = await chain.getBlockAt(block.number + chain.finalizationBlocks);
         if (finalizationBlock == null) {
-            throw new AttestationHelperError(`finalization block not found (block ${block.number}, height ${await this.chain.getBlockHeight()})`);
+            throw new AttestationHelperError(`finalization block not found (block ${block.number}, height ${await chain.getBlockHeight()})`);
         }
-        const request: BalanceDecreasingTransaction.Request = {
+        return {
             attestationType: BalanceDecreasingTransaction.TYPE,
             sourceId: this.chainId,
             messageIntegrityCode: ZERO_BYTES32,
@@ -81,22 +134,26 @@ export class AttestationHelper {
                 sourceAddressIndicator: web3.utils.keccak256(sourceAddress),
             },
         };
-        return await this.client.submitRequest(request);
     }
 
     async requestReferencedPaymentNonexistenceProof(destinationAddress: string, paymentReference: string, amount: BN, startBlock: number, endBlock: number, endTimestamp: number, sourceAddressesRoot?: string): Promise<AttestationRequestId | null> {
-        let overflowBlock = await this.chain.getBlockAt(endBlock + 1);
+        const request = await this.referencedPaymentNonexistenceRequest(destinationAddress, paymentReference, amount, startBlock, endBlock, endTimestamp, sourceAddressesRoot);
+        return await this.client.submitRequest(request);
+    }
+
+    async referencedPaymentNonexistenceRequest(destinationAddress: string, paymentReference: string, amount: BN, startBlock: number, endBlock: number, endTimestamp: number, sourceAddressesRoot?: string, chain: ChainLookups = this.chain): Promise<ReferencedPaymentNonexistence.Request> {
+        let overflowBlock = await chain.getBlockAt(endBlock + 1);
         while (overflowBlock != null && overflowBlock.timestamp <= endTimestamp) {
-            overflowBlock = await this.chain.getBlockAt(overflowBlock.number + 1);
+            overflowBlock = await chain.getBlockAt(overflowBlock.number + 1);
         }
         if (overflowBlock == null) {
-            throw new AttestationHelperError(`overflow block not found (overflowBlock ${endBlock + 1}, endTimestamp ${endTimestamp}, height ${await this.chain.getBlockHeight()})`);
+            throw new AttestationHelperError(`overflow block not found (overflowBlock ${endBlock + 1}, endTimestamp ${endTimestamp}, height ${await chain.getBlockHeight()})`);
         }
-        const finalizationBlock = await this.chain.getBlockAt(overflowBlock.number + this.chain.finalizationBlocks);
+        const finalizationBlock = await chain.getBlockAt(overflowBlock.number + chain.finalizationBlocks);
         if (finalizationBlock == null) {
-            throw new AttestationHelperError(`finalization block not found (block ${overflowBlock.number}, height ${await this.chain.getBlockHeight()})`);
+            throw new AttestationHelperError(`finalization block not found (block ${overflowBlock.number}, height ${await chain.getBlockHeight()})`);
         }
-        const request: ReferencedPaymentNonexistence.Request = {
+        return {
             attestationType: ReferencedPaymentNonexistence.TYPE,
             sourceId: this.chainId,
             messageIntegrityCode: ZERO_BYTES32,
@@ -111,7 +168,6 @@ export class AttestationHelper {
                 sourceAddressesRoot: sourceAddressesRoot ?? ZERO_BYTES32,
             },
         };
-        return await this.client.submitRequest(request);
     }
 
     static merkleRootOfAddresses(addresses: string[]) {
@@ -235,4 +291,55 @@ export class AttestationHelper {
         }
         return result;
     }
+
+    /**
+     * Build all requests (looking up each transaction and block only once), submit every distinct request once, so that they all
+     * get into the same round if possible, and wait for the proofs. Requests that cannot be proved are reported as `DISPROVED`,
+     * also those that cannot be built (e.g. the transaction or the finalization block is not found); other keys are still proved.
+     */
+    async proveBatch<K extends string>(requests: Record<K, BatchProofRequest>): Promise<Record<K, OptionalAttestationProof>> {
+        const chain = new ChainLookupCache(this.chain);
+        // build requests and group the keys by encoded request data
+        const keysByData = new Map<string, { request: ARBase, keys: K[] }>();
+        // requests that cannot even be built (e.g. the transaction is not found) are not submitted
+        const submitted: Array<{ requestId: AttestationRequestId | null, keys: K[] }> = [];
+        for (const key of Object.keys(requests) as K[]) {
+            const request = await this.batchRequest(requests[key], chain)
+                .catch(e => expectErrors(e, [AttestationHelperError]));
+            if (request == null) {
+                submitted.push({ requestId: null, keys: [key] });
+                continue;
+            }
+            getOrCreate(keysByData, attestationDefinitionStore().encodeRequest(request), () => ({ request, keys: [] })).keys.push(key);
+        }
+        // submit all before waiting for any round
+        for (const { request, keys } of keysByData.values()) {
+            submitted.push({ requestId: await this.client.submitRequest(request), keys });
+        }
+        const rounds = new Set(submitted.map(item => item.requestId?.round).filter((round): round is number => round != null));
+        for (const round of Array.from(rounds).sort((a, b) => a - b)) {
+            await this.client.waitForRoundFinalization(round);
+        }
+        // obtain proofs
+        const result = {} as Record<K, OptionalAttestationProof>;
+        for (const { requestId, keys } of submitted) {
+            const proof = requestId != null ? await this.client.obtainProof(requestId.round, requestId.data) : AttestationNotProved.DISPROVED;
+            for (const key of keys) {
+                result[key] = proof;
+            }
+        }
+        return result;
+    }
+
+    private async batchRequest(request: BatchProofRequest, chain: ChainLookups): Promise<ARBase> {
+        switch (request.type) {
+            case 'payment':
+                return await this.paymentRequest(request.transactionHash, request.sourceAddress, request.receivingAddress, chain);
+            case 'balanceDecreasingTransaction':
+                return await this.balanceDecreasingTransactionRequest(request.transactionHash, request.sourceAddress, chain);
+            case 'referencedPaymentNonexistence':
+                return await this.referencedPaymentNonexistenceRequest(request.destinationAddress, request.paymentReference, request.amount,
+                    request.startBlock, request.endBlock, request.endTimestamp, request.sourceAddressesRoot, chain);
+        }
+    }
 }
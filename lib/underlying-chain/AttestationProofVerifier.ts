@@ -0,0 +1,150 @@
+import { ARESBase, Payment, ReferencedPaymentNonexistence } from "@flarenetwork/state-connector-protocol";
+import { BNish, toBN } from "../utils/helpers";
+import { attestationDefinitionStore } from "./AttestationHelper";
+import { TX_SUCCESS } from "./interfaces/IBlockChain";
+import { AttestationProof } from "./interfaces/IFlareDataConnectorClient";
+
+export const FDC_PROTOCOL_ID = 200;
+
+export enum ProofVerificationFailure {
+    INVALID_RESPONSE = 'invalid response',                  // the response cannot be encoded (unknown attestation type or malformed fields)
+    MERKLE_ROOT_MISMATCH = 'merkle root mismatch',          // the proof does not lead to the root stored in the relay for the voting round
+    WRONG_ATTESTATION_TYPE = 'wrong attestation type',
+    WRONG_PAYMENT_REFERENCE = 'wrong payment reference',
+    WRONG_SOURCE_ADDRESS = 'wrong source address',
+    WRONG_RECEIVING_ADDRESS = 'wrong receiving address',
+    AMOUNT_TOO_LOW = 'amount too low',
+    WRONG_AMOUNT = 'wrong amount',
+    PAYMENT_NOT_SUCCESSFUL = 'payment not successful',
+}
+
+export interface ExpectedPayment {
+    paymentReference?: string;
+    sourceAddress?: string;
+    receivingAddress?: string;
+    minReceivedAmount?: BNish;
+    requireSuccess?: boolean;       // default true
+}
+
+export interface ExpectedReferencedPaymentNonexistence {
+    paymentReference?: string;
+    destinationAddress?: string;
+    amount?: BNish;
+}
+
+// the part of the relay interface needed to read stored roots (e.g. `RelayMock`)
+export interface MerkleRootSource {
+    merkleRoots(protocolId: BNish, votingRoundId: BNish): Promise<string>;
+}
+
+/**
+ * The hash of the attestation response, as used for Merkle tree leaves (and in `FdcVerification`), or null if the response is malformed.
+ */
+export function attestationResponseHash(response: ARESBase): string | null {
+    try {
+        return attestationDefinitionStore().attestationResponseHash(response);
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Recompute the Merkle root from the proof's response and Merkle proof, as OpenZeppelin's `MerkleProof.processProof` does.
+ */
+export function attestationProofMerkleRoot(proof: AttestationProof): string | null {
+    const leaf = attestationResponseHash(proof.data);
+    if (leaf == null) return null;
+    return proof.merkleProof.reduce((hash, sibling) => hashPair(hash, sibling), leaf.toLowerCase());
+}
+
+/**
+ * Check the proof against the Merkle root stored for its voting round.
+ */
+export function verifyAttestationProof(proof: AttestationProof, merkleRoot: string): ProofVerificationFailure[] {
+    const computedRoot = attestationProofMerkleRoot(proof);
+    if (computedRoot == null) return [ProofVerificationFailure.INVALID_RESPONSE];
+    return computedRoot === merkleRoot.toLowerCase() ? [] : [ProofVerificationFailure.MERKLE_ROOT_MISMATCH];
+}
+
+/**
+ * Check the payment proof's response against the expected values, like the asset manager does in minting and redemption confirmation.
+ */
+export function verifyPaymentResponse(proof: Payment.Proof, expected: ExpectedPayment): ProofVerificationFailure[] {
+    const failures: ProofVerificationFailure[] = [];
+    const response = proof.data.responseBody;
+    if (proof.data.attestationType !== Payment.TYPE) {
+        failures.push(ProofVerificationFailure.WRONG_ATTESTATION_TYPE);
+    }
+    if (expected.paymentReference != null && !sameHex(response.standardPaymentReference, expected.paymentReference)) {
+        failures.push(ProofVerificationFailure.WRONG_PAYMENT_REFERENCE);
+    }
+    if (expected.sourceAddress != null && !sameHex(response.sourceAddressHash, web3.utils.keccak256(expected.sourceAddress))) {
+        failures.push(ProofVerificationFailure.WRONG_SOURCE_ADDRESS);
+    }
+    if (expected.receivingAddress != null && !sameHex(response.receivingAddressHash, web3.utils.keccak256(expected.receivingAddress))) {
+        failures.push(ProofVerificationFailure.WRONG_RECEIVING_ADDRESS);
+    }
+    if (expected.minReceivedAmount != null && toBN(response.receivedAmount).lt(toBN(expected.minReceivedAmount))) {
+        failures.push(ProofVerificationFailure.AMOUNT_TOO_LOW);
+    }
+    if ((expected.requireSuccess ?? true) && Number(response.status) !== TX_SUCCESS) {
+        failures.push(ProofVerificationFailure.PAYMENT_NOT_SUCCESSFUL);
+    }
+    return failures;
+}
+
+/**
+ * Check the nonexistence proof's request against the expected values, like the asset manager does for payment defaults.
+ */
+export function verifyReferencedPaymentNonexistenceRequest(proof: ReferencedPaymentNonexistence.Proof, expected: ExpectedReferencedPaymentNonexistence): ProofVerificationFailure[] {
+    const failures: ProofVerificationFailure[] = [];
+    const request = proof.data.requestBody;
+    if (proof.data.attestationType !== ReferencedPaymentNonexistence.TYPE) {
+        failures.push(ProofVerificationFailure.WRONG_ATTESTATION_TYPE);
+    }
+    if (expected.paymentReference != null && !sameHex(request.standardPaymentReference, expected.paymentReference)) {
+        failures.push(ProofVerificationFailure.WRONG_PAYMENT_REFERENCE);
+    }
+    if (expected.destinationAddress != null && !sameHex(request.destinationAddressHash, web3.utils.keccak256(expected.destinationAddress))) {
+        failures.push(ProofVerificationFailure.WRONG_RECEIVING_ADDRESS);
+    }
+    if (expected.amount != null && !toBN(request.amount).eq(toBN(expected.amount))) {
+        failures.push(ProofVerificationFailure.WRONG_AMOUNT);
+    }
+    return failures;
+}
+
+/**
+ * Verifies proofs against the Merkle roots stored in the relay, before they are sent to the asset manager.
+ */
+export class AttestationProofVerifier {
+    constructor(
+        public relay: MerkleRootSource,
+        public protocolId: number = FDC_PROTOCOL_ID,
+    ) {}
+
+    async merkleRoot(votingRound: BNish): Promise<string> {
+        return await this.relay.merkleRoots(this.protocolId, votingRound);
+    }
+
+    async verifyProof(proof: AttestationProof): Promise<ProofVerificationFailure[]> {
+        return verifyAttestationProof(proof, await this.merkleRoot(proof.data.votingRound));
+    }
+
+    async verifyPayment(proof: Payment.Proof, expected: ExpectedPayment): Promise<ProofVerificationFailure[]> {
+        return [...await this.verifyProof(proof), ...verifyPaymentResponse(proof, expected)];
+    }
+
+    async verifyReferencedPaymentNonexistence(proof: ReferencedPaymentNonexistence.Proof, expected: ExpectedReferencedPaymentNonexistence): Promise<ProofVerificationFailure[]> {
+        return [...await this.verifyProof(proof), ...verifyReferencedPaymentNonexistenceRequest(proof, expected)];
+    }
+}
+
+function hashPair(a: string, b: string) {
+    const [first, second] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+    return web3.utils.keccak256("0x" + first.slice(2) + second.slice(2)).toLowerCase();
+}
+
+function sameHex(a: string, b: string) {
+    return a.toLowerCase() === b.toLowerCase();
+}
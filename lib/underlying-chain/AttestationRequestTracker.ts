@@ -0,0 +1,124 @@
+import { ARBase } from "@flarenetwork/state-connector-protocol";
+import { filterStackTrace, latestBlockTimestamp, sleep } from "../utils/helpers";
+import { ILogger } from "../utils/logging";
+import { attestationProved } from "./AttestationHelper";
+import { AttestationNotProved, AttestationProof, AttestationRequestId, IFlareDataConnectorClient } from "./interfaces/IFlareDataConnectorClient";
+
+const RETRY_DELAY_MS = 1000;
+
+export enum AttestationFailureReason {
+    UNPROVABLE = 'unprovable',              // the data connector refused to accept the request (e.g. the transaction is not finalized)
+    DISPROVED = 'disproved',                // the rounds finalized without the request
+    WINDOW_EXPIRED = 'window expired',      // the proof would be older than `attestationWindowSeconds` and would be rejected by the asset manager
+}
+
+export type AttestationTrackerResult<PROOF extends AttestationProof = AttestationProof> =
+    | { proved: true, proof: PROOF, attempts: number }
+    | { proved: false, reason: AttestationFailureReason, attempts: number };
+
+export interface TrackedAttestationRequestData {
+    key: string;
+    request: ARBase;
+    attempts: number;
+    referenceTimestamp: number | null;          // the timestamp of the proved data (e.g. transaction block), from which the attestation window is counted
+    submitted: AttestationRequestId | null;     // the submission that is waiting for round finalization
+    lastFailure: AttestationFailureReason | null;
+}
+
+/**
+ * Tracks attestation requests until they are proved: requests that the data connector refuses or that the round finalizes
+ * without are resubmitted in later rounds, until `maxAttempts` is reached or the attestation window passes.
+ * Every logical proof (identified by a caller chosen key) has a single result promise.
+ */
+export class AttestationRequestTracker {
+    constructor(
+        public client: IFlareDataConnectorClient,
+        public attestationWindowSeconds: number,
+        public maxAttempts: number = 3,
+    ) {}
+
+    retryDelayMs = RETRY_DELAY_MS;
+    timestamp: () => Promise<number> = latestBlockTimestamp;
+    logger?: ILogger;
+
+    private pending = new Map<string, TrackedAttestationRequestData>();
+    private results = new Map<string, Promise<AttestationTrackerResult>>();
+
+    /**
+     * Submit `request` and track it until it is proved or fails. Calling again with the same key returns the existing result promise.
+     * @param referenceTimestamp the timestamp of the proved data (e.g. the block timestamp of the proved transaction); the asset manager
+     *  rejects proofs whose data is older than `attestationWindowSeconds`, so no resubmission is made after that; if not set
+     *  (e.g. for address validity, which is not time dependent), the attestation window is not checked
+     */
+    track<PROOF extends AttestationProof = AttestationProof>(key: string, request: ARBase, referenceTimestamp?: number): Promise<AttestationTrackerResult<PROOF>> {
+        const result = this.results.get(key) ?? this.start({ key, request, attempts: 0, referenceTimestamp: referenceTimestamp ?? null, submitted: null, lastFailure: null });
+        return result as Promise<AttestationTrackerResult<PROOF>>;
+    }
+
+    result<PROOF extends AttestationProof = AttestationProof>(key: string): Promise<AttestationTrackerResult<PROOF>> | undefined {
+        return this.results.get(key) as Promise<AttestationTrackerResult<PROOF>> | undefined;
+    }
+
+    outstandingKeys() {
+        return Array.from(this.pending.keys());
+    }
+
+    saveState(): TrackedAttestationRequestData[] {
+        return Array.from(this.pending.values(), data => ({ ...data }));
+    }
+
+    /**
+     * Continue tracking the requests that were outstanding when the state was saved; use `result(key)` to obtain their results.
+     */
+    restoreState(data: TrackedAttestationRequestData[]) {
+        for (const request of data) {
+            if (this.results.has(request.key)) continue;
+            this.start({ ...request });
+        }
+    }
+
+    private start(data: TrackedAttestationRequestData) {
+        this.pending.set(data.key, data);
+        const result = this.run(data).finally(() => this.pending.delete(data.key));
+        this.results.set(data.key, result);
+        // the callers of `track` get the error, but restored requests may have no caller waiting for the result
+        result.catch(error => this.logger?.log(`!!! ATTESTATION REQUEST ${data.key} TRACKING ERROR ${filterStackTrace(error)}`));
+        return result;
+    }
+
+    private async run(data: TrackedAttestationRequestData): Promise<AttestationTrackerResult> {
+        while (true) {
+            if (data.submitted == null) {
+                if (data.attempts >= this.maxAttempts) {
+                    return { proved: false, reason: data.lastFailure ?? AttestationFailureReason.UNPROVABLE, attempts: data.attempts };
+                }
+                if (await this.windowExpired(data)) {
+                    return { proved: false, reason: AttestationFailureReason.WINDOW_EXPIRED, attempts: data.attempts };
+                }
+                data.attempts += 1;
+                data.submitted = await this.client.submitRequest(data.request);
+                if (data.submitted == null) {
+                    data.lastFailure = AttestationFailureReason.UNPROVABLE;
+                    await sleep(this.retryDelayMs);
+                    continue;
+                }
+            }
+            await this.client.waitForRoundFinalization(data.submitted.round);
+            const result = await this.client.obtainProof(data.submitted.round, data.submitted.data);
+            if (attestationProved(result)) {
+                return { proved: true, proof: result, attempts: data.attempts };
+            } else if (result === AttestationNotProved.NOT_FINALIZED) {
+                await sleep(this.retryDelayMs);
+            } else {
+                // the round finalized without the request - resubmit in a later round
+                data.submitted = null;
+                data.lastFailure = AttestationFailureReason.DISPROVED;
+            }
+        }
+    }
+
+    private async windowExpired(data: TrackedAttestationRequestData) {
+        if (data.referenceTimestamp == null) return false;
+        return await this.timestamp() > data.referenceTimestamp + this.attestationWindowSeconds;
+    }
+}
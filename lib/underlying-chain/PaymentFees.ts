@@ -0,0 +1,42 @@
+import { FEE_PRIORITIES, IBlockChain, IFeeRateEstimate } from "./interfaces/IBlockChain";
+import { TransactionOptionsWithFee } from "./interfaces/IBlockChainWallet";
+import { BNish, toBN } from "../utils/helpers";
+
+/**
+ * Return the cheapest fee estimate whose expected inclusion time still fits before the deadline.
+ * The deadline passes only when both `lastBlock` and `lastTimestamp` pass (as for redemption and minting payments),
+ * so the later of the two counts. If even the highest priority is too slow, the highest priority estimate is returned.
+ */
+export async function feeRateEstimateForDeadline(chain: IBlockChain, lastBlock: BNish, lastTimestamp: BNish): Promise<IFeeRateEstimate> {
+    if (chain.estimateFeeRate == null) {
+        throw new Error("chain has no fee estimation");
+    }
+    const blocksLeft = await blocksUntilDeadline(chain, lastBlock, lastTimestamp);
+    let estimate: IFeeRateEstimate | undefined;
+    for (const priority of FEE_PRIORITIES) {
+        estimate = await chain.estimateFeeRate(priority);
+        if (estimate.expectedBlocks <= blocksLeft) break;
+    }
+    return estimate!;
+}
+
+/**
+ * Transaction options for a simple payment (e.g. redemption payment) that must be mined by the deadline
+ * (typically `lastUnderlyingBlock` and `lastUnderlyingTimestamp` from the request event).
+ * The options set the fee rate, so that the wallet can calculate the fee from the actual transaction size.
+ * On chains without fee estimation, the options are empty and the wallet uses its default fee.
+ */
+export async function paymentFeeOptionsForDeadline(chain: IBlockChain, lastBlock: BNish, lastTimestamp: BNish): Promise<TransactionOptionsWithFee> {
+    if (chain.estimateFeeRate == null) return {};
+    const estimate = await feeRateEstimateForDeadline(chain, lastBlock, lastTimestamp);
+    return { feeRate: estimate.feeRate };
+}
+
+async function blocksUntilDeadline(chain: IBlockChain, lastBlock: BNish, lastTimestamp: BNish) {
+    const blockHeight = await chain.getBlockHeight();
+    const lastMinedBlock = await chain.getBlockAt(blockHeight);
+    const blocksLeftByNumber = toBN(lastBlock).toNumber() - blockHeight;
+    if (lastMinedBlock == null) return blocksLeftByNumber;
+    const blocksLeftByTime = Math.floor((toBN(lastTimestamp).toNumber() - lastMinedBlock.timestamp) / chain.secondsPerBlock);
+    return Math.max(blocksLeftByNumber, blocksLeftByTime);
+}
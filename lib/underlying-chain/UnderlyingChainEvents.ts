@@ -35,6 +35,27 @@ export class UnderlyingChainEvents {
         });
     }
     
+    // True if the chain reports reorganizations (`blockRevertedEvent` and `transactionRevertedEvent` are only triggered in this case).
+    get reorgAware() {
+        return this.events.addBlockRevertedHandler != null && this.events.addTransactionRevertedHandler != null;
+    }
+
+    blockRevertedEvent(): EventEmitter<IBlockId> {
+        return new EventEmitter(this.executionQueue, handler => {
+            if (this.events.addBlockRevertedHandler == null) return ClearableSubscription.of(() => {});
+            const subscriptionId = this.events.addBlockRevertedHandler(handler);
+            return ClearableSubscription.of(() => this.events.removeHandler(subscriptionId));
+        });
+    }
+
+    transactionRevertedEvent(filter: { [name: string]: string; } | null = null): EventEmitter<ITransaction> {
+        return new EventEmitter(this.executionQueue, handler => {
+            if (this.events.addTransactionRevertedHandler == null) return ClearableSubscription.of(() => {});
+            const subscriptionId = this.events.addTransactionRevertedHandler(filter, handler);
+            return ClearableSubscription.of(() => this.events.removeHandler(subscriptionId));
+        });
+    }
+
     async waitForUnderlyingTransaction(scope: EventScope | undefined, txHash: string, maxBlocksToWaitForTx?: number) {
         const transaction = await this.chain.getTransaction(txHash);
         if (transaction != null) return transaction;
@@ -47,14 +68,31 @@ export class UnderlyingChainEvents {
         return event.name === 'found' ? event.args : null;
     }
 
+    /**
+     * Wait until the transaction is mined and finalized.
+     * On reorg-aware chains, the transaction may be reverted before finalization; then it is waited for again
+     * (up to `maxBlocksToWaitForTx` blocks) in case it gets included in the new fork. Returns `null` if the transaction vanished.
+     */
     async waitForUnderlyingTransactionFinalization(scope: EventScope | undefined, txHash: string, maxBlocksToWaitForTx?: number) {
-        const transaction = await this.waitForUnderlyingTransaction(scope, txHash, maxBlocksToWaitForTx);
-        if (transaction == null) return null;
-        // find transaction block
-        const block = await this.chain.getTransactionBlock(txHash);
-        if (block == null) return null;
-        // wait for finalization
-        await this.blockHeightReachedEvent(block.number + this.chain.finalizationBlocks).wait(scope);
-        return transaction;
+        while (true) {
+            const transaction = await this.waitForUnderlyingTransaction(scope, txHash, maxBlocksToWaitForTx);
+            if (transaction == null) return null;
+            // the subscriptions are only needed until finalization or revert
+            const waitScope = new EventScope(scope);
+            try {
+                // subscribe before reading the transaction block, so that a revert in between is not missed
+                const reverted = this.transactionRevertedEvent({ hash: txHash }).qualified('reverted').wait(waitScope);
+                const block = await this.chain.getTransactionBlock(txHash);
+                if (block == null) return null;
+                // wait for finalization
+                const event = await Promise.race([
+                    this.blockHeightReachedEvent(block.number + this.chain.finalizationBlocks).qualified('finalized').wait(waitScope),
+                    reverted,
+                ]);
+                if (event.name === 'finalized') return transaction;
+            } finally {
+                waitScope.finish();
+            }
+        }
     }
 }
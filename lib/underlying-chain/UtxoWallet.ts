@@ -0,0 +1,137 @@
+import { FeePriority, IBlockChain, TxInputOutput } from "./interfaces/IBlockChain";
+import { IUtxoBlockChainWallet, UTXO, UtxoTransactionOptions } from "./interfaces/IBlockChainWallet";
+import { BN_ZERO, BNish, sumBN, toBN } from "../utils/helpers";
+
+export class UtxoSelectionError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+// Fee of a transaction as a function of its size: `baseFee + inputs * feePerInput + outputs * feePerOutput`.
+export interface UtxoFeeModel {
+    baseFee: BN;
+    feePerInput: BN;
+    feePerOutput: BN;
+}
+
+// Size of a transaction (in the units of the chain's fee rate, e.g. bytes): `baseSize + inputs * sizePerInput + outputs * sizePerOutput`.
+export interface UtxoSizeModel {
+    baseSize: number;
+    sizePerInput: number;
+    sizePerOutput: number;
+}
+
+export interface UtxoSelection {
+    inputs: UTXO[];
+    fee: BN;
+    change: BN;     // 0 means no change output
+}
+
+export function utxoFeeModel(sizeModel: UtxoSizeModel, feeRate: BN): UtxoFeeModel {
+    return {
+        baseFee: feeRate.muln(sizeModel.baseSize),
+        feePerInput: feeRate.muln(sizeModel.sizePerInput),
+        feePerOutput: feeRate.muln(sizeModel.sizePerOutput),
+    };
+}
+
+export function utxoTransactionFee(feeModel: UtxoFeeModel, inputCount: number, outputCount: number) {
+    return feeModel.baseFee.add(feeModel.feePerInput.muln(inputCount)).add(feeModel.feePerOutput.muln(outputCount));
+}
+
+/**
+ * Select outputs that cover `amount` plus fee (largest first, so that the number of inputs and thus the fee is small).
+ * `outputCount` is the number of outputs without change; the change output is only added when the leftover covers its fee,
+ * otherwise the leftover is added to the fee.
+ * Throws `UtxoSelectionError` if the outputs don't suffice or the fee would exceed `maxFee`.
+ */
+export function selectUtxos(utxos: UTXO[], amount: BN, feeModel: UtxoFeeModel, outputCount: number, maxFee?: BN): UtxoSelection {
+    const sorted = [...utxos].sort((a, b) => -a.amount.cmp(b.amount));
+    const inputs: UTXO[] = [];
+    let total = BN_ZERO;
+    let feeTooHigh = false;
+    for (const utxo of sorted) {
+        inputs.push(utxo);
+        total = total.add(utxo.amount);
+        const feeWithoutChange = utxoTransactionFee(feeModel, inputs.length, outputCount);
+        if (total.lt(amount.add(feeWithoutChange))) continue;
+        const feeWithChange = utxoTransactionFee(feeModel, inputs.length, outputCount + 1);
+        const selection: UtxoSelection = total.gt(amount.add(feeWithChange))
+            ? { inputs, fee: feeWithChange, change: total.sub(amount).sub(feeWithChange) }
+            : { inputs, fee: total.sub(amount), change: BN_ZERO };
+        if (maxFee == null || selection.fee.lte(maxFee)) return selection;
+        // the fee may only be too high because the leftover is too small for change - try with more inputs
+        feeTooHigh = true;
+    }
+    if (feeTooHigh) {
+        throw new UtxoSelectionError(`transaction fee exceeds maxFee ${maxFee}`);
+    }
+    throw new UtxoSelectionError(`insufficient funds: need ${amount} plus fee, available ${total}`);
+}
+
+/**
+ * Wallet for UTXO chains that does coin selection on top of the chain-specific output tracking and transaction submission.
+ * The fee is the transaction size times the fee rate from options or, if not set, the chain's fee rate estimate for `feePriority`.
+ */
+export abstract class UtxoWalletBase implements IUtxoBlockChainWallet {
+    constructor(
+        public chain: IBlockChain,
+        public sizeModel: UtxoSizeModel,
+        public changeAddress?: string,    // default change address; if not set, the change returns to the source address
+    ) { }
+
+    feePriority: FeePriority = 'medium';
+
+    abstract getUnspentOutputs(address: string): Promise<UTXO[]>;
+
+    // Create, sign and submit transaction spending exactly the given outputs. Returns new transaction hash.
+    protected abstract submitTransaction(inputs: UTXO[], outputs: TxInputOutput[], reference: string | null): Promise<string>;
+
+    async addTransaction(sourceAddress: string, targetAddress: string, amount: BNish, reference: string | null, options?: UtxoTransactionOptions): Promise<string> {
+        const maxFee = options?.maxFee != null ? toBN(options.maxFee) : undefined;
+        const feeRate = await this.feeRate(options);
+        const utxos = await this.getUnspentOutputs(sourceAddress);
+        const selection = selectUtxos(utxos, toBN(amount), utxoFeeModel(this.sizeModel, feeRate), 1, maxFee);
+        const outputs: TxInputOutput[] = [[targetAddress, toBN(amount)]];
+        this.addChange(outputs, selection.change, sourceAddress, options);
+        return await this.submitTransaction(selection.inputs, outputs, reference);
+    }
+
+    async addMultiTransaction(spend: { [address: string]: BNish; }, receive: { [address: string]: BNish; }, reference: string | null, options?: UtxoTransactionOptions): Promise<string> {
+        // the fee is the difference between spend and receive amounts, as chosen by the caller
+        if (options?.feeRate != null || options?.gasPrice != null || options?.gasLimit != null) {
+            throw new UtxoSelectionError("multi transaction fee is set by spend and receive amounts, only maxFee option is supported");
+        }
+        const fee = sumBN(Object.values(spend), x => toBN(x)).sub(sumBN(Object.values(receive), x => toBN(x)));
+        if (fee.isNeg()) {
+            throw new UtxoSelectionError(`receive amounts exceed spend amounts by ${fee.neg()}`);
+        }
+        if (options?.maxFee != null && fee.gt(toBN(options.maxFee))) {
+            throw new UtxoSelectionError(`transaction fee ${fee} exceeds maxFee ${options.maxFee}`);
+        }
+        const zeroFee: UtxoFeeModel = { baseFee: BN_ZERO, feePerInput: BN_ZERO, feePerOutput: BN_ZERO };
+        const inputs: UTXO[] = [];
+        const outputs: TxInputOutput[] = Object.entries(receive).map(([address, amount]) => [address, toBN(amount)]);
+        for (const [address, amount] of Object.entries(spend)) {
+            const utxos = await this.getUnspentOutputs(address);
+            const selection = selectUtxos(utxos, toBN(amount), zeroFee, 0);
+            inputs.push(...selection.inputs);
+            this.addChange(outputs, sumBN(selection.inputs, utxo => utxo.amount).sub(toBN(amount)), address, options);
+        }
+        return await this.submitTransaction(inputs, outputs, reference);
+    }
+
+    private async feeRate(options?: UtxoTransactionOptions) {
+        if (options?.feeRate != null) return toBN(options.feeRate);
+        if (this.chain.estimateFeeRate == null) {
+            throw new Error("chain has no fee estimation, feeRate option is required");
+        }
+        return (await this.chain.estimateFeeRate(this.feePriority)).feeRate;
+    }
+
+    private addChange(outputs: TxInputOutput[], change: BN, sourceAddress: string, options?: UtxoTransactionOptions) {
+        if (change.isZero()) return;
+        outputs.push([options?.changeAddress ?? this.changeAddress ?? sourceAddress, change]);
+    }
+}
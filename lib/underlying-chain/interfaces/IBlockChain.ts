@@ -48,12 +48,29 @@ export interface IBlock {
     transactions: string[];
 }
 
+// Fee priority levels, from the cheapest (slowest) to the most expensive (fastest).
+export const FEE_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+export type FeePriority = typeof FEE_PRIORITIES[number];
+
+export interface IFeeRateEstimate {
+    // Fee per unit of transaction size - per byte on UTXO chains, per unit of gas (i.e. gas price) on account-based chains.
+    feeRate: BN;
+
+    // Expected number of blocks until a transaction paying this fee rate is mined.
+    expectedBlocks: number;
+}
+
 export interface IBlockChain {
     // Estimated number of blocks to reach finalization.
     finalizationBlocks: number;
     
     // Estimated number of seconds per block.
     secondsPerBlock: number;
+
+    // Estimated size (in bytes or gas, depending on chain) of a simple payment with one source and one target address.
+    // Only provided by chains that support fee estimation.
+    paymentTransactionSize?: number;
     
     // Return the transaction with given hash or `null` if the transaction doesn't exist.
     getTransaction(txHash: string): Promise<ITransaction | null>;
@@ -72,4 +89,8 @@ export interface IBlockChain {
     
     // Return the (approximate) current block height (last mined block number).
     getBlockHeight(): Promise<number>;
+
+    // Return the current fee rate estimate for the given priority.
+    // Optional - without it, the wallets use their default fees.
+    estimateFeeRate?(priority: FeePriority): Promise<IFeeRateEstimate>;
 }
@@ -18,6 +18,17 @@ export interface IBlockChainEvents {
     // Returns subscriptionId (string), used for unsubscribing.
     addTransactionHandler(filter: { [name: string]: string; } | null, handler: TransactionHandler): string;
 
+    // Add handler that is triggered when a previously reported block is removed from the chain by a reorganization.
+    // Optional - only implemented by reorg-aware chains; the others only ever report blocks on a linear chain.
+    // Returns subscriptionId (string), used for unsubscribing.
+    addBlockRevertedHandler?(handler: BlockHandler): string;
+
+    // Add handler that is triggered when a previously reported transaction is removed from the chain by a reorganization.
+    // The transaction may be mined again later (and then reported again by the transaction handlers).
+    // Filter is the same as in `addTransactionHandler`. Optional - only implemented by reorg-aware chains.
+    // Returns subscriptionId (string), used for unsubscribing.
+    addTransactionRevertedHandler?(filter: { [name: string]: string; } | null, handler: TransactionHandler): string;
+
     // Remove handler with given subscriptionId.
     removeHandler(subscriptionId: string): void;
 }
@@ -6,13 +6,35 @@ export interface TransactionOptions {
 }
 
 export interface TransactionOptionsWithFee extends TransactionOptions {
-    // depending on chain, set either maxFee or (gasPrice, gasLimit), but not both
+    // depending on chain, set either maxFee, feeRate or (gasPrice, gasLimit), but not more of them
     // if not used, fee/gas limits will be calculated and added automatically by the wallet
     maxFee?: NumberLike;
+    // fee per unit of transaction size (as in `IBlockChain.estimateFeeRate`); the wallet calculates the fee from the actual transaction size
+    feeRate?: NumberLike;
     gasPrice?: NumberLike;
     gasLimit?: NumberLike;
 }
 
+export interface UtxoTransactionOptions extends TransactionOptionsWithFee {
+    // address that receives the change; if not set, the wallet's default change address (or the source address) is used
+    changeAddress?: string;
+}
+
+// Unspent transaction output.
+export interface UTXO {
+    // Hash of the transaction that created the output.
+    transactionHash: string;
+
+    // Index of the output in the transaction's outputs.
+    outputIndex: number;
+
+    // Address that owns the output.
+    address: string;
+
+    // Output amount.
+    amount: BN;
+}
+
 export interface IBlockChainWallet {
     chain: IBlockChain;
 
@@ -28,3 +50,15 @@ export interface IBlockChainWallet {
     // Returns new transaction hash.
     addMultiTransaction(spend: { [address: string]: NumberLike; }, receive: { [address: string]: NumberLike; }, reference: string | null, options?: TransactionOptions): Promise<string>;
 }
+
+// Wallet for UTXO chains (BTC, DOGE), which selects the outputs to spend automatically.
+// Option `maxFee` limits the fee paid on top of the amount; if the selected outputs cannot cover amount and fee within the limit, the transaction fails.
+export interface IUtxoBlockChainWallet extends IBlockChainWallet {
+    // Return the outputs owned by the address that are not spent (by mined or pending transactions).
+    getUnspentOutputs(address: string): Promise<UTXO[]>;
+
+    addTransaction(sourceAddress: string, targetAddress: string, amount: NumberLike, reference: string | null, options?: UtxoTransactionOptions): Promise<string>;
+
+    // Spend amounts in `spend` are selected from each source address' outputs; the rest is returned as change.
+    addMultiTransaction(spend: { [address: string]: NumberLike; }, receive: { [address: string]: NumberLike; }, reference: string | null, options?: UtxoTransactionOptions): Promise<string>;
+}
@@ -0,0 +1,134 @@
+import { EvmEvent } from "./common";
+import { EvmEventArgsForName, IEvmEvents } from "./IEvmEvents";
+import { ClearableSubscription, EventEmitter, EventExecutionQueue } from "./ScopedEvents";
+import { ContractWithEventsBase, EventArgsForName, EventNamesFor } from "./truffle";
+import { filterStackTrace, multimapAdd, multimapDelete } from "../helpers";
+import { ILogger } from "../logging";
+
+// event args as dispatched to handlers (the handler's own argument type is checked when subscribing with `event()`)
+type DispatchedEventArgs = { [name: string]: unknown, $event: EvmEvent };
+
+interface FilteredHandler {
+    filter: Record<string, unknown> | undefined;
+    handler: (eventArgs: DispatchedEventArgs) => void;
+}
+
+/**
+ * Event source that first replays past events and then continues with live ones.
+ * Past logs are read in pages of `pageSize` blocks via `getPastEvents` and dispatched in exact (blockNumber, logIndex) order,
+ * also across different contracts. The live mode polls for new blocks using the same code, so there are no gaps or duplicates
+ * between the replayed and the live events.
+ * Handlers subscribed for a contract that had no handlers before only receive events from the blocks that haven't been processed yet.
+ */
+export class HistoricalEvmEvents implements IEvmEvents {
+    constructor(
+        public eventQueue: EventExecutionQueue | null,
+        public fromBlock: number,
+        public pageSize: number = 1000,
+        public pollIntervalMS: number = 1000,
+    ) {
+        this.lastProcessedBlock = fromBlock - 1;
+    }
+
+    // the last block whose events were all dispatched
+    lastProcessedBlock: number;
+
+    logger?: ILogger;
+
+    // map 'address:eventName' => filtered handlers
+    private handlers = new Map<string, Set<FilteredHandler>>();
+    // map address => contract (for all contracts that ever had handlers)
+    private contracts = new Map<string, ContractWithEventsBase>();
+
+    private pollTimer: NodeJS.Timeout | null = null;
+    private processing = false;
+
+    public event<C extends ContractWithEventsBase, N extends EventNamesFor<C>>(contract: C, event: N, filter?: Partial<EventArgsForName<C, N>>) {
+        return new EventEmitter<EvmEventArgsForName<C, N>>(this.eventQueue, handler => {
+            const key = `${contract.address}:${event}`;
+            const filteredHandler: FilteredHandler = { filter, handler: handler as (eventArgs: DispatchedEventArgs) => void };
+            this.contracts.set(contract.address, contract);
+            multimapAdd(this.handlers, key, filteredHandler);
+            return ClearableSubscription.of(() => multimapDelete(this.handlers, key, filteredHandler));
+        });
+    }
+
+    get live() {
+        return this.pollTimer != null;
+    }
+
+    /**
+     * Dispatch all events in blocks up to `toBlock` (default: the current block) that haven't been processed yet.
+     * Fails if another replay (or a live mode poll) is in progress.
+     */
+    async replay(toBlock?: number) {
+        if (this.processing) {
+            throw new Error("HistoricalEvmEvents: replay already in progress");
+        }
+        this.processing = true;
+        try {
+            const lastBlock = toBlock ?? await web3.eth.getBlockNumber();
+            while (this.lastProcessedBlock < lastBlock) {
+                const pageEnd = Math.min(this.lastProcessedBlock + this.pageSize, lastBlock);
+                await this.processBlockRange(this.lastProcessedBlock + 1, pageEnd);
+                this.lastProcessedBlock = pageEnd;
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    /**
+     * Replay all past events and then switch to live mode, where new blocks are processed every `pollIntervalMS`.
+     */
+    async start() {
+        await this.replay();
+        if (this.pollTimer != null) return;
+        this.pollTimer = setInterval(() => void this.poll(), this.pollIntervalMS);
+    }
+
+    stop() {
+        if (this.pollTimer == null) return;
+        clearInterval(this.pollTimer);
+        this.pollTimer = null;
+    }
+
+    private async poll() {
+        if (this.processing) return;    // previous poll is still reading logs
+        try {
+            await this.replay();
+        } catch (error) {
+            // the range wasn't marked as processed, so it will be retried on the next poll
+            this.logger?.log(`!!! EVENT READING ERROR after block ${this.lastProcessedBlock}: ${filterStackTrace(error)}`);
+        }
+    }
+
+    private async processBlockRange(fromBlock: number, toBlock: number) {
+        const events: EvmEvent[] = [];
+        for (const contract of this.contracts.values()) {
+            const contractEvents: EvmEvent[] = await contract.getPastEvents('allEvents', { fromBlock, toBlock });
+            events.push(...contractEvents);
+        }
+        events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+        for (const event of events) {
+            this.handleEvent(event);
+        }
+    }
+
+    private handleEvent(event: EvmEvent) {
+        const key = `${event.address}:${event.event}`;
+        const handlers = this.handlers.get(key);
+        if (handlers == null)
+            return;
+        const args = { ...event.args, $event: event };
+        for (const handler of handlers) {
+            if (handler.filter == null || this.filterMatches(handler.filter, event.args)) {
+                handler.handler(args);
+            }
+        }
+    }
+
+    private filterMatches(filter: Record<string, unknown>, args: any) {
+        return Object.entries(filter).every(([key, value]) => String(value) === String(args[key]));
+    }
+}
@@ -1,8 +1,9 @@
 import { expectRevert } from "@openzeppelin/test-helpers";
 import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
-import { toBNExp, toWei } from "../../../lib/utils/helpers";
+import { quoteMinting } from "../../../lib/fasset/MintingQuote";
+import { BN_ZERO, toBNExp, toWei } from "../../../lib/utils/helpers";
 import { getTestFile, loadFixtureCopyVars } from "../../utils/test-helpers";
-import { assertWeb3Equal } from "../../utils/web3assertions";
+import { assertWeb3DeepEqual, assertWeb3Equal } from "../../utils/web3assertions";
 import { Agent } from "../utils/Agent";
 import { AssetContext } from "../utils/AssetContext";
 import { CommonContext } from "../utils/CommonContext";
@@ -13,6 +14,7 @@ contract(`AssetManagerSimulation.sol; ${getTestFile(__filename)}; Asset manager
     const governance = accounts[10];
     const agentOwner1 = accounts[20];
     const agentOwner2 = accounts[21];
+    const agentOwner3 = accounts[22];
     const minterAddress1 = accounts[30];
     const minterAddress2 = accounts[31];
     const redeemerAddress1 = accounts[40];
@@ -24,6 +26,7 @@ contract(`AssetManagerSimulation.sol; ${getTestFile(__filename)}; Asset manager
     // addresses on mock underlying chain can be any string, as long as it is unique
     const underlyingAgent1 = "Agent1";
     const underlyingAgent2 = "Agent2";
+    const underlyingAgent3 = "Agent3";
     const underlyingMinter1 = "Minter1";
     const underlyingMinter2 = "Minter2";
     const underlyingRedeemer1 = "Redeemer1";
@@ -213,6 +216,50 @@ contract(`AssetManagerSimulation.sol; ${getTestFile(__filename)}; Asset manager
             assertWeb3Equal(availableAgents6[1], 2);
         });
 
+        it("quote minting at the cheapest agents and split large mints", async () => {
+            const agent1 = await Agent.createTest(context, agentOwner1, underlyingAgent1, { feeBIPS: 600 });
+            const agent2 = await Agent.createTest(context, agentOwner2, underlyingAgent2, { feeBIPS: 500 });
+            const agent3 = await Agent.createTest(context, agentOwner3, underlyingAgent3, { feeBIPS: 500, handshakeType: 1 });
+            const minter = await Minter.createTest(context, minterAddress1, underlyingMinter1, context.underlyingAmount(1000000));
+            await agent1.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(5e8));
+            await agent2.depositCollateralsAndMakeAvailable(toWei(3e6), toWei(5e6));
+            await agent3.depositCollateralsAndMakeAvailable(toWei(3e6), toWei(5e6));
+            const freeLots2 = (await agent2.getAgentCollateral()).freeCollateralLots();
+            // small mint - the cheapest agent without handshake
+            const quote1 = await quoteMinting(context.assetManager, 3);
+            assert.equal(quote1.items.length, 1);
+            assert.equal(quote1.items[0].agentVault, agent2.vaultAddress);
+            assert.isFalse(quote1.items[0].handshakeRequired);
+            assertWeb3Equal(quote1.unfilledLots, 0);
+            assertWeb3Equal(quote1.totalCollateralReservationFeeNatWei, await context.assetManager.collateralReservationFee(3));
+            // large mint without splitting - the only agent that can mint everything
+            const lots = freeLots2.addn(10);
+            const quote2 = await quoteMinting(context.assetManager, lots);
+            assert.equal(quote2.items.length, 1);
+            assert.equal(quote2.items[0].agentVault, agent1.vaultAddress);
+            // large mint split - cheapest agents first, handshake agent after the one without handshake
+            const quote3 = await quoteMinting(context.assetManager, lots, { maxAgents: 3 });
+            assert.deepEqual(quote3.items.map(item => item.agentVault), [agent2.vaultAddress, agent3.vaultAddress]);
+            assertWeb3Equal(quote3.items[0].lots, freeLots2);
+            assertWeb3Equal(quote3.items[1].lots, 10);
+            assert.isTrue(quote3.items[1].handshakeRequired);
+            const quote4 = await quoteMinting(context.assetManager, lots, { maxAgents: 3, allowHandshake: false });
+            assert.deepEqual(quote4.items.map(item => item.agentVault), [agent2.vaultAddress, agent1.vaultAddress]);
+            assertWeb3Equal(quote4.totalPaymentUBA, quote4.items.reduce((sum, item) => sum.add(item.valueUBA).add(item.mintingFeeUBA), BN_ZERO));
+            // the quote is deterministic
+            assertWeb3DeepEqual(await quoteMinting(context.assetManager, lots, { maxAgents: 3, allowHandshake: false }), quote4);
+            // reservations follow the quote
+            for (const item of quote4.items) {
+                const crt = await minter.reserveCollateral(item.agentVault, item.lots);
+                assertWeb3Equal(crt.valueUBA, item.valueUBA);
+                assertWeb3Equal(crt.feeUBA, item.mintingFeeUBA);
+            }
+            // no agent has enough free collateral
+            const quote5 = await quoteMinting(context.assetManager, 1_000_000_000);
+            assert.equal(quote5.items.length, 0);
+            assertWeb3Equal(quote5.unfilledLots, 1_000_000_000);
+        });
+
         it("should survive ftsov2 decimal number changes", async () => {
             const fullVaultCollateral = toWei(3e8);
             const fullPoolCollateral = toWei(5e8);
@@ -520,6 +520,48 @@ contract(`AssetManagerSimulation.sol; ${getTestFile(__filename)}; Asset manager
             }
         });
 
+        it("redemption simulator predicts redemption requests, fees and incomplete remainder", async () => {
+            const fullAgentCollateral = toWei(3e8);
+            const agent1 = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+            const agent2 = await Agent.createTest(context, agentOwner2, underlyingAgent2);
+            await agent1.depositCollateralsAndMakeAvailable(fullAgentCollateral, fullAgentCollateral);
+            await agent2.depositCollateralsAndMakeAvailable(fullAgentCollateral, fullAgentCollateral);
+            const minter = await Minter.createTest(context, minterAddress1, underlyingMinter1, context.underlyingAmount(10000));
+            const redeemer = await Redeemer.create(context, redeemerAddress1, underlyingRedeemer1);
+            // tickets: agent1 (2 lots), agent2 (1 lot), agent1 (2 lots)
+            let totalMinted = BN_ZERO;
+            for (const [agent, lots] of [[agent1, 2], [agent2, 1], [agent1, 2]] as const) {
+                await context.updateUnderlyingBlock();
+                const crt = await minter.reserveCollateral(agent.vaultAddress, lots);
+                const txHash = await minter.performMintingPayment(crt);
+                const minted = await minter.executeMinting(crt, txHash);
+                totalMinted = totalMinted.add(toBN(minted.mintedAmountUBA));
+            }
+            await context.fAsset.transfer(redeemer.address, totalMinted, { from: minter.address });
+            const executor = accounts[88];
+            const executorFee = toBNExp(10.5, 9);
+            // complete redemption over 3 tickets, partially redeeming the last one
+            await context.updateUnderlyingBlock();
+            const simulation1 = await context.simulateRedemption(4, executorFee);
+            const [requests1, remainingLots1, dustChanges1] = await redeemer.requestRedemption(4, executor, executorFee);
+            assertWeb3DeepEqual(simulation1.requests.map(rq => [rq.agentVault, rq.valueUBA, rq.feeUBA, rq.executorFeeNatWei]),
+                requests1.map(rq => [rq.agentVault, rq.valueUBA, rq.feeUBA, rq.executorFeeNatWei]));
+            assertWeb3Equal(simulation1.remainingLots, remainingLots1);
+            assert.equal(simulation1.dustChanges.length, dustChanges1.length);
+            assert.equal(requests1.length, 2);
+            // only 1 lot left in the queue - incomplete redemption
+            const simulation2 = await context.simulateRedemption(3);
+            const [requests2, remainingLots2] = await redeemer.requestRedemption(3);
+            assertWeb3DeepEqual(simulation2.requests.map(rq => [rq.agentVault, rq.valueUBA, rq.feeUBA]),
+                requests2.map(rq => [rq.agentVault, rq.valueUBA, rq.feeUBA]));
+            assertWeb3Equal(simulation2.remainingLots, 2);
+            assertWeb3Equal(remainingLots2, 2);
+            // empty queue - redeem would revert
+            const simulation3 = await context.simulateRedemption(1);
+            assertWeb3Equal(simulation3.redeemedLots, 0);
+            await expectRevert(redeemer.requestRedemption(1), "redeem 0 lots");
+        });
+
         it("mint and redeem f-assets (many redemption tickets to the same agent are merged at minting, so can be redeemed at once)", async () => {
             const N = 25;
             const MT = 20;  // max tickets redeemed
@@ -1,4 +1,5 @@
 import { expectRevert } from "@openzeppelin/test-helpers";
+import { RedemptionPaymentOutcome, validateRedemptionPayment } from "../../../lib/fasset/RedemptionPaymentValidation";
 import { TX_BLOCKED, TX_FAILED } from "../../../lib/underlying-chain/interfaces/IBlockChain";
 import { eventArgs, requiredEventArgs } from "../../../lib/utils/events/truffle";
 import { DAYS, MAX_BIPS, toBN, toWei } from "../../../lib/utils/helpers";
@@ -94,6 +95,8 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
             const request = redemptionRequests[0];
             assert.equal(request.agentVault, agent.vaultAddress);
             const tx1Hash = await agent.performRedemptionPayment(request, { status: TX_BLOCKED });
+            const validation = validateRedemptionPayment(request, await context.attestationProvider.provePayment(tx1Hash, agent.underlyingAddress, request.paymentAddress));
+            assert.deepEqual(validation, { outcome: RedemptionPaymentOutcome.BLOCKED, confirmable: true });
             await agent.confirmBlockedRedemptionPayment(request, tx1Hash);
             await agent.checkAgentInfo({ totalVaultCollateralWei: fullAgentCollateral, freeUnderlyingBalanceUBA: minted.agentFeeUBA.add(request.valueUBA), mintedUBA: minted.poolFeeUBA, redeemingUBA: 0 });
             // agent can exit now
@@ -245,6 +248,7 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
             await agent.checkAgentInfo({ totalVaultCollateralWei: fullAgentCollateral, freeUnderlyingBalanceUBA: minted.agentFeeUBA, mintedUBA: minted.poolFeeUBA, reservedUBA: 0, redeemingUBA: request.valueUBA });
             // perform some (failed) payment with correct redemption reference
             const tx1Hash = await agent.performRedemptionPayment(request, { status: TX_FAILED, gasLimit: 10, gasPrice: 10 });
+            const validation = validateRedemptionPayment(request, await context.attestationProvider.provePayment(tx1Hash, agent.underlyingAddress, request.paymentAddress));
             const vaultCollateralToken = agent.vaultCollateralToken();
             const startVaultCollateralBalanceRedeemer = await vaultCollateralToken.balanceOf(redeemer.address);
             const startVaultCollateralBalanceAgent = await vaultCollateralToken.balanceOf(agent.agentVault.address);
@@ -267,6 +271,7 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
             //
             const [redemptionDefaultValueVaultCollateral, redemptionDefaultValuePool] = await agent.getRedemptionPaymentDefaultValue(lots);
             assertWeb3Equal(res[0].failureReason, "transaction failed");
+            assert.deepEqual(validation, { outcome: RedemptionPaymentOutcome.FAILED, confirmable: true, failureReason: "transaction failed" });
             assertWeb3Equal(res[1].redeemedVaultCollateralWei, redemptionDefaultValueVaultCollateral);
             assertWeb3Equal(endVaultCollateralBalanceRedeemer.sub(startVaultCollateralBalanceRedeemer), res[1].redeemedVaultCollateralWei);
             assertWeb3Equal(startVaultCollateralBalanceAgent.sub(endVaultCollateralBalanceAgent), res[1].redeemedVaultCollateralWei);
@@ -305,6 +310,7 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
             // perform some (failed) payment with correct redemption reference
             const tx1Hash = await agent.performPayment(minter.underlyingAddress, request.valueUBA, request.paymentReference);
             const proof = await context.attestationProvider.provePayment(tx1Hash, agent.underlyingAddress, minter.underlyingAddress);
+            const validation = validateRedemptionPayment(request, proof, { agentUnderlyingAddress: agent.underlyingAddress });
             const vaultCollateralToken = agent.vaultCollateralToken();
             const startVaultCollateralBalanceRedeemer = await vaultCollateralToken.balanceOf(redeemer.address);
             const startVaultCollateralBalanceAgent = await vaultCollateralToken.balanceOf(agent.agentVault.address);
@@ -328,6 +334,7 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
             const endPoolBalanceAgent = await agent.poolCollateralBalance();
             const [redemptionDefaultValueVaultCollateral, redemptionDefaultValuePool] = await agent.getRedemptionPaymentDefaultValue(lots);
             assertWeb3Equal(resFailed.failureReason, "not redeemer's address");
+            assert.deepEqual(validation, { outcome: RedemptionPaymentOutcome.FAILED, confirmable: true, failureReason: "not redeemer's address" });
             assertWeb3Equal(resDefault.redeemedPoolCollateralWei, redemptionDefaultValuePool);
             assertWeb3Equal(resDefault.redeemedVaultCollateralWei, redemptionDefaultValueVaultCollateral);
             assertWeb3Equal(endVaultCollateralBalanceRedeemer.sub(startVaultCollateralBalanceRedeemer), resDefault.redeemedVaultCollateralWei);
@@ -366,6 +373,7 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
                 mintedUBA: minted.poolFeeUBA, reservedUBA: 0, redeemingUBA: request.valueUBA });
             // perform some (failed) payment with correct redemption reference
             const tx1Hash = await agent.performPayment(request.paymentAddress, 100, request.paymentReference);
+            const validation = validateRedemptionPayment(request, await context.attestationProvider.provePayment(tx1Hash, agent.underlyingAddress, request.paymentAddress));
             const vaultCollateralToken = agent.vaultCollateralToken();
             const startVaultCollateralBalanceRedeemer = await vaultCollateralToken.balanceOf(redeemer.address);
             const startVaultCollateralBalanceAgent = await vaultCollateralToken.balanceOf(agent.agentVault.address);
@@ -387,6 +395,7 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
             const endPoolBalanceAgent = await agent.poolCollateralBalance();
             const [redemptionDefaultValueVaultCollateral, redemptionDefaultValuePool] = await agent.getRedemptionPaymentDefaultValue(lots);
             assertWeb3Equal(res[0].failureReason, "redemption payment too small");
+            assert.deepEqual(validation, { outcome: RedemptionPaymentOutcome.FAILED, confirmable: true, failureReason: "redemption payment too small" });
             assertWeb3Equal(res[1].redeemedPoolCollateralWei, redemptionDefaultValuePool);
             assertWeb3Equal(res[1].redeemedVaultCollateralWei, redemptionDefaultValueVaultCollateral);
             assertWeb3Equal(endVaultCollateralBalanceRedeemer.sub(startVaultCollateralBalanceRedeemer), res[1].redeemedVaultCollateralWei);
@@ -426,7 +435,10 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
             // perform some (failed) payment with correct redemption reference
             const tx1Hash = await agent.wallet.addTransaction(minter.underlyingAddress, request.paymentAddress, 1, request.paymentReference);
             const proof = await context.attestationProvider.provePayment(tx1Hash, minter.underlyingAddress, request.paymentAddress);
-            await expectRevert(context.assetManager.confirmRedemptionPayment(proof, request.requestId, { from: agent.ownerWorkAddress }), "confirm failed payment only from agent's address");
+            const validation = validateRedemptionPayment(request, proof, { agentUnderlyingAddress: agent.underlyingAddress });
+            assert.isFalse(validation.confirmable);
+            assert.equal(validation.failureReason, "redemption payment too small");
+            await expectRevert(context.assetManager.confirmRedemptionPayment(proof, request.requestId, { from: agent.ownerWorkAddress }), validation.revertMessage!);
             // mine some blocks to create overflow block
             for (let i = 0; i <= context.chainInfo.underlyingBlocksForPayment; i++) {
                 await minter.wallet.addTransaction(minter.underlyingAddress, minter.underlyingAddress, 1, null);
@@ -577,8 +589,10 @@ contract(`AssetManager.sol; ${getTestFile(__filename)}; Asset manager simulation
             assertWeb3Equal(startPoolBalanceAgent.sub(endPoolBalanceAgent), res.redeemedPoolCollateralWei);
             // perform too late redemption payment
             const tx1Hash = await agent.performRedemptionPayment(request);
+            const validation = validateRedemptionPayment(request, await context.attestationProvider.provePayment(tx1Hash, agent.underlyingAddress, request.paymentAddress), { defaulted: true });
             const tx = await agent.confirmDefaultedRedemptionPayment(request, tx1Hash);
             assert.equal(eventArgs(tx, "RedemptionPaymentFailed").failureReason, "redemption payment too late");
+            assert.deepEqual(validation, { outcome: RedemptionPaymentOutcome.TOO_LATE, confirmable: true, failureReason: "redemption payment too late" });
             await agent.checkAgentInfo({ totalVaultCollateralWei: fullAgentCollateral.sub(res.redeemedVaultCollateralWei),
                 freeUnderlyingBalanceUBA: minted.agentFeeUBA.add(request.feeUBA), mintedUBA: minted.poolFeeUBA, redeemingUBA: 0 });
             // check that calling finishRedemptionWithoutPayment after confirming redemption payment will revert
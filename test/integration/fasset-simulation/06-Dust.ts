@@ -110,8 +110,15 @@ contract(`AssetManagerSimulation.sol; ${getTestFile(__filename)}; Asset manager
             // redeemer "buys" f-assets
             await context.fAsset.transfer(redeemer.address, minted.mintedAmountUBA, { from: minter.address });
             // perform redemption
+            const simulation = await context.simulateRedemption(lots);
             const [redemptionRequests, remainingLots, dustChanges1] = await redeemer.requestRedemption(lots);
             assertWeb3Equal(remainingLots, 2);
+            // simulator predicts the same request and dust
+            assertWeb3Equal(simulation.remainingLots, remainingLots);
+            assert.equal(simulation.requests.length, 1);
+            assertWeb3Equal(simulation.requests[0].valueUBA, redemptionRequests[0].valueUBA);
+            assertWeb3Equal(simulation.requests[0].feeUBA, redemptionRequests[0].feeUBA);
+            assert.deepEqual(simulation.dustChanges.map(dc => [dc.agentVault, String(dc.dustUBA)]), dustChanges1.map(dc => [dc.agentVault, String(dc.dustUBA)]));
             assert.equal(dustChanges1.length, 1);
             assert.equal(redemptionRequests.length, 1);
             const request = redemptionRequests[0];
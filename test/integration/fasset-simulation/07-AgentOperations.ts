@@ -1,8 +1,11 @@
 import { expectRevert } from "@openzeppelin/test-helpers";
+import { AgentOnboarding, AgentOnboardingStep } from "../../../lib/fasset/AgentOnboarding";
+import { IAssetContext } from "../../../lib/fasset/IAssetContext";
 import { DAYS, MAX_BIPS, toBN, toWei } from "../../../lib/utils/helpers";
-import { MockChain } from "../../utils/fasset/MockChain";
+import { MockChain, MockChainWallet } from "../../utils/fasset/MockChain";
 import { MockFlareDataConnectorClient } from "../../utils/fasset/MockFlareDataConnectorClient";
 import { deterministicTimeIncrease, getTestFile, loadFixtureCopyVars } from "../../utils/test-helpers";
+import { createTestAgentSettings } from "../../utils/test-settings";
 import { assertWeb3Equal } from "../../utils/web3assertions";
 import { Agent } from "../utils/Agent";
 import { AssetContext } from "../utils/AssetContext";
@@ -372,5 +375,65 @@ contract(`AssetManagerSimulation.sol; ${getTestFile(__filename)}; Asset manager
             const res = agent.withdrawVaultCollateral(withdrawalAmount);
             await expectRevert(res,"CR too low");
         });
+
+        it("onboard agent with EOA proof and resume after interruption", async () => {
+            assert.isTrue(context.chainInfo.requireEOAProof);
+            mockChain.mint(underlyingAgent1, mockChain.requiredFee.addn(1));
+            const wallet = new MockChainWallet(mockChain);
+            const settings = createTestAgentSettings(context.usdc.address);
+            // validate address and send the ownership payment, then stop
+            const onboarding1 = new AgentOnboarding(context, wallet, agentOwner1, underlyingAgent1, settings);
+            await onboarding1.runStep();
+            assert.equal(onboarding1.step, AgentOnboardingStep.PAY_ADDRESS_OWNERSHIP);
+            await onboarding1.runStep();
+            assert.equal(onboarding1.step, AgentOnboardingStep.PROVE_EOA);
+            const state = JSON.parse(JSON.stringify(onboarding1.saveState()));
+            const balanceAfterPayment = await mockChain.getBalance(underlyingAgent1);
+            // continue in a new instance - no new payment is made
+            const checkpoints: AgentOnboardingStep[] = [];
+            const onboarding2 = new AgentOnboarding(context, wallet, agentOwner1, underlyingAgent1, settings);
+            onboarding2.restoreState(state);
+            const agentVault = await onboarding2.run(async data => { checkpoints.push(data.step); });
+            assert.deepEqual(checkpoints, [AgentOnboardingStep.CREATE_VAULT, AgentOnboardingStep.DONE]);
+            assert.equal(onboarding2.ownershipTransactionHash, onboarding1.ownershipTransactionHash);
+            assertWeb3Equal(await mockChain.getBalance(underlyingAgent1), balanceAfterPayment);
+            const agentInfo = await context.assetManager.getAgentInfo(agentVault);
+            assert.equal(agentInfo.underlyingAddressString, underlyingAgent1);
+            // running the last step again finds the created vault instead of creating a new one
+            const onboarding3 = new AgentOnboarding(context, wallet, agentOwner1, underlyingAgent1, settings);
+            onboarding3.restoreState({ ...onboarding2.saveState(), step: AgentOnboardingStep.CREATE_VAULT });
+            assert.equal(await onboarding3.run(), agentVault);
+        });
+
+        it("onboarding rejects invalid underlying address before any payment", async () => {
+            const wallet = new MockChainWallet(mockChain);
+            const onboarding = new AgentOnboarding(context, wallet, agentOwner1, "INVALID_ADDRESS", createTestAgentSettings(context.usdc.address));
+            await expectRevert(onboarding.run(), "invalid underlying address");
+            assert.equal(onboarding.step, AgentOnboardingStep.VALIDATE_ADDRESS);
+            assert.isUndefined(onboarding.ownershipTransactionHash);
+        });
+
+        it("onboarding checks the underlying address format before requesting attestation", async () => {
+            const wallet = new MockChainWallet(mockChain);
+            const settings = createTestAgentSettings(context.usdc.address);
+            let attestationRequests = 0;
+            const attestationProvider = Object.create(context.attestationProvider);
+            attestationProvider.proveAddressValidity = async (address: string) => {
+                ++attestationRequests;
+                return await context.attestationProvider.proveAddressValidity(address);
+            };
+            const onboardingContext: IAssetContext = Object.create(context);
+            onboardingContext.chainInfo = { ...context.chainInfo, underlyingAddressFormat: /^Agent\d+$/ };
+            onboardingContext.attestationProvider = attestationProvider;
+            for (const address of ["", " Agent1", "agent-1"]) {
+                const onboarding = new AgentOnboarding(onboardingContext, wallet, agentOwner1, address, settings);
+                await expectRevert(onboarding.run(), "invalid underlying address");
+            }
+            assert.equal(attestationRequests, 0);
+            const onboarding = new AgentOnboarding(onboardingContext, wallet, agentOwner1, underlyingAgent1, settings);
+            await onboarding.runStep();
+            assert.equal(onboarding.step, AgentOnboardingStep.PAY_ADDRESS_OWNERSHIP);
+            assert.equal(attestationRequests, 1);
+        });
     });
 });
@@ -3,6 +3,7 @@ import { AgentInfo, AgentSetting, AgentSettings, AgentStatus, RedemptionTicketIn
 import { AssetManagerEvents } from "../../../lib/fasset/IAssetContext";
 import { PaymentReference } from "../../../lib/fasset/PaymentReference";
 import { IBlockChainWallet } from "../../../lib/underlying-chain/interfaces/IBlockChainWallet";
+import { paymentFeeOptionsForDeadline } from "../../../lib/underlying-chain/PaymentFees";
 import { EventArgs } from "../../../lib/utils/events/common";
 import { checkEventNotEmited, eventArgs, filterEvents, requiredEventArgs } from "../../../lib/utils/events/truffle";
 import { BN_ZERO, BNish, MAX_BIPS, randomAddress, requireNotNull, toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
@@ -349,6 +350,12 @@ export class Agent extends AssetContextClient {
         return await this.performPayment(request.paymentAddress, paymentAmount, request.paymentReference, options);
     }
 
+    // pay with the fee rate for which the payment is expected to be mined before the redemption payment deadline
+    async performRedemptionPaymentBeforeDeadline(request: EventArgs<RedemptionRequested>, options?: MockTransactionOptionsWithFee) {
+        const feeOptions = await paymentFeeOptionsForDeadline(this.chain, request.lastUnderlyingBlock, request.lastUnderlyingTimestamp);
+        return await this.performRedemptionPayment(request, { ...feeOptions, ...options });
+    }
+
     async confirmActiveRedemptionPayment(request: EventArgs<RedemptionRequested>, transactionHash: string) {
         const proof = await this.attestationProvider.provePayment(transactionHash, this.underlyingAddress, request.paymentAddress);
         const res = await this.assetManager.confirmRedemptionPayment(proof, request.requestId, { from: this.ownerWorkAddress });
@@ -2,6 +2,7 @@ import { time } from "@openzeppelin/test-helpers";
 import { AssetManagerSettings, CollateralType, RedemptionTicketInfo } from "../../../lib/fasset/AssetManagerTypes";
 import { convertAmgToTokenWei, convertAmgToUBA, convertTokenWeiToAMG, convertUBAToAmg } from "../../../lib/fasset/Conversions";
 import { AgentOwnerRegistryEvents, AssetManagerEvents, FAssetEvents, IAssetContext, WhitelistEvents } from "../../../lib/fasset/IAssetContext";
+import { simulateRedemption } from "../../../lib/fasset/RedemptionSimulation";
 import { CollateralPrice } from "../../../lib/state/CollateralPrice";
 import { Prices } from "../../../lib/state/Prices";
 import { TokenPriceReader } from "../../../lib/state/TokenPrice";
@@ -255,6 +256,19 @@ export class AssetContext implements IAssetContext {
         return result;
     }
 
+    // simulate `redeem` on the current redemption queue and agents' dust
+    async simulateRedemption(lots: BNish, executorFeeNatWei: BNish = 0) {
+        const settings = await this.assetManager.getSettings();
+        const queue = await this.getRedemptionQueue(100);
+        const dustUBA = new Map<string, BN>();
+        for (const ticket of queue) {
+            if (dustUBA.has(ticket.agentVault)) continue;
+            const agentInfo = await this.assetManager.getAgentInfo(ticket.agentVault);
+            dustUBA.set(ticket.agentVault, toBN(agentInfo.dustUBA));
+        }
+        return simulateRedemption(settings, queue, agentVault => dustUBA.get(agentVault) ?? BN_ZERO, lots, executorFeeNatWei);
+    }
+
     static async createTest(common: CommonContext, chainInfo: TestChainInfo, options: SettingsOptions = {}): Promise<AssetContext> {
         // create mock chain
         const chain = new MockChain(await time.latest());
@@ -0,0 +1,181 @@
+import { AgentBot } from "../../../lib/actors/AgentBot";
+import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { AttestationHelperError } from "../../../lib/underlying-chain/AttestationHelper";
+import { TX_FAILED } from "../../../lib/underlying-chain/interfaces/IBlockChain";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { BNish, MAX_BIPS, sumBN, toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { InterceptorEvmEvents } from "../../fuzzing/fasset/InterceptorEvmEvents";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { TestChainInfo } from "../../integration/utils/TestChainInfo";
+import { BotTestContext, performMinting, getAgentStatus } from "../../utils/bot-test-helpers";
+import { MockChain, MockChainUtxoWallet, MockChainWallet, MockTransactionOptionsWithFee } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`AgentBotTests.ts; ${getTestFile(__filename)}; Agent bot unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const underlyingOwner1 = "Owner1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chainInfo: TestChainInfo;
+    let chain: MockChain;
+    let truffleEvents: InterceptorEvmEvents;
+    let trackedState: TrackedState;
+    let logger: ILogger;
+    let runner: ScopedRunner;
+
+    let agent: Agent;
+    let minter: Minter;
+    let redeemer: Redeemer;
+
+    // wallet on which the payments with the reference fail
+    function walletFailingPayment(paymentReference: string) {
+        const wallet = new MockChainWallet(chain);
+        const addTransaction = wallet.addTransaction.bind(wallet);
+        wallet.addTransaction = async (from: string, to: string, value: BNish, reference: string | null, options?: MockTransactionOptionsWithFee) => {
+            if (reference === paymentReference) {
+                options = { ...options, status: TX_FAILED };
+            }
+            return await addTransaction(from, to, value, reference, options);
+        };
+        return wallet;
+    }
+
+    function paymentsWithReference(paymentReference: string) {
+        return chain.blocks.flatMap(block => block.transactions).filter(tx => tx.reference === paymentReference);
+    }
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/agent-bot.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chainInfo, chain, truffleEvents, trackedState, runner } = botContext);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        redeemer = await Redeemer.create(context, customerAddress1, underlyingCustomer1);
+    });
+
+    it("pay and confirm redemption", async () => {
+        const agentBot = new AgentBot(runner, trackedState, agent.ownerWorkAddress, agent.wallet, [agent.vaultAddress]);
+        await performMinting(minter, agent, 50);
+        const balanceBefore = await chain.getBalance(underlyingCustomer1);
+        const [reqs] = await redeemer.requestRedemption(10);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), "0");
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+        const received = (await chain.getBalance(underlyingCustomer1)).sub(balanceBefore);
+        assert.equal(String(received), String(toBN(reqs[0].valueUBA).sub(toBN(reqs[0].feeUBA))));
+    });
+
+    it("pay redemption with the cheapest fee priority that fits before the deadline", async () => {
+        const agentBot = new AgentBot(runner, trackedState, agent.ownerWorkAddress, agent.wallet, [agent.vaultAddress]);
+        chain.feeRateModel = () => toBN(1000);
+        // low priority is too slow for the payment deadline, medium fits
+        chain.feePriorityExpectedBlocks = { low: 10 * chainInfo.underlyingBlocksForPayment, medium: 3, high: 1 };
+        await performMinting(minter, agent, 50);
+        const [reqs] = await redeemer.requestRedemption(10);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), "0");
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+        const payment = chain.blocks.flatMap(block => block.transactions).find(tx => tx.reference === reqs[0].paymentReference)!;
+        const fee = sumBN(payment.inputs, ([_, amount]) => amount).sub(sumBN(payment.outputs, ([_, amount]) => amount));
+        const expectedFee = toBN(1000).muln(chain.feePriorityBIPS.medium).divn(MAX_BIPS);
+        assert.equal(String(fee), String(expectedFee));
+    });
+
+    it("request redemption payment proof again when it is not available yet", async () => {
+        const agentBot = new AgentBot(runner, trackedState, agent.ownerWorkAddress, agent.wallet, [agent.vaultAddress]);
+        await performMinting(minter, agent, 50);
+        const [reqs] = await redeemer.requestRedemption(10);
+        // the first proof request fails
+        const provePayment = context.attestationProvider.provePayment.bind(context.attestationProvider);
+        let proofRequests = 0;
+        context.attestationProvider.provePayment = async (transactionHash: string, sourceAddress: string | null, receivingAddress: string | null) => {
+            if (++proofRequests === 1) throw new AttestationHelperError("payment: not proved");
+            return await provePayment(transactionHash, sourceAddress, receivingAddress);
+        };
+        await botContext.waitThreadsToFinish();
+        assert.equal(proofRequests, 2);
+        assert.equal(paymentsWithReference(reqs[0].paymentReference).length, 1);
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), "0");
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+    });
+
+    it("confirm failed redemption payment without paying again", async () => {
+        await performMinting(minter, agent, 50);
+        const [reqs] = await redeemer.requestRedemption(10);
+        const wallet = walletFailingPayment(reqs[0].paymentReference);
+        const agentBot = new AgentBot(runner, trackedState, agent.ownerWorkAddress, wallet, [agent.vaultAddress]);
+        const defaulted = truffleEvents.event(context.assetManager, 'RedemptionDefault').immediate().wait();
+        await botContext.waitThreadsToFinish();
+        assert.equal(String((await defaulted).requestId), String(reqs[0].requestId));
+        assert.deepEqual(paymentsWithReference(reqs[0].paymentReference).map(tx => tx.status), [TX_FAILED]);
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), "0");
+    });
+
+    it("pay redemption from utxo wallet with change", async () => {
+        const wallet = new MockChainUtxoWallet(chain);
+        const agentBot = new AgentBot(runner, trackedState, agent.ownerWorkAddress, wallet, [agent.vaultAddress]);
+        await performMinting(minter, agent, 50);
+        const [mintingOutput] = (await wallet.getUnspentOutputs(agent.underlyingAddress)).sort((a, b) => -a.amount.cmp(b.amount));
+        const [reqs] = await redeemer.requestRedemption(10);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), "0");
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+        // the biggest output (minting payment) was spent and the change returned to the agent
+        const paymentAmount = toBN(reqs[0].valueUBA).sub(toBN(reqs[0].feeUBA));
+        const utxosAfter = await wallet.getUnspentOutputs(agent.underlyingAddress);
+        assert.isFalse(utxosAfter.some(utxo => utxo.transactionHash === mintingOutput.transactionHash));
+        assert.isTrue(utxosAfter.some(utxo => utxo.amount.eq(mintingOutput.amount.sub(paymentAmount).sub(chain.requiredFee))));
+    });
+
+    it("execute minting when minter doesn't", async () => {
+        const agentBot = new AgentBot(runner, trackedState, agent.ownerWorkAddress, agent.wallet, [agent.vaultAddress]);
+        const crt = await minter.reserveCollateral(agent.vaultAddress, 10);
+        await minter.performMintingPayment(crt);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.isTrue(toBN(agentInfo.mintedUBA).gte(toBN(crt.valueUBA)));
+        assert.equal(String(await context.fAsset.balanceOf(minter.address)), String(crt.valueUBA));
+    });
+
+    it("default unpaid minting", async () => {
+        const agentBot = new AgentBot(runner, trackedState, agent.ownerWorkAddress, agent.wallet, [agent.vaultAddress]);
+        await minter.reserveCollateral(agent.vaultAddress, 10);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.reservedUBA), "0");
+        assert.equal(String(agentInfo.mintedUBA), "0");
+    });
+
+    it("perform announced underlying withdrawal", async () => {
+        const agentBot = new AgentBot(runner, trackedState, agent.ownerWorkAddress, agent.wallet, [agent.vaultAddress]);
+        await performMinting(minter, agent, 50);
+        await botContext.waitThreadsToFinish();
+        const agentInfoBefore = await agent.getAgentInfo();
+        const amount = toBN(agentInfoBefore.freeUnderlyingBalanceUBA).divn(2);
+        await agentBot.withdrawUnderlying(agent.vaultAddress, underlyingOwner1, amount);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.announcedUnderlyingWithdrawalId), "0");
+        assert.equal(String(await chain.getBalance(underlyingOwner1)), String(amount));
+    });
+
+});
@@ -0,0 +1,95 @@
+import { Payment } from "@flarenetwork/state-connector-protocol";
+import { time } from "@openzeppelin/test-helpers";
+import { PaymentReference } from "../../../lib/fasset/PaymentReference";
+import { AttestationHelper, attestationProved, BatchProofRequest } from "../../../lib/underlying-chain/AttestationHelper";
+import { AttestationNotProved } from "../../../lib/underlying-chain/interfaces/IFlareDataConnectorClient";
+import { toBN } from "../../../lib/utils/helpers";
+import { testChainInfo } from "../../integration/utils/TestChainInfo";
+import { MockChain, MockChainWallet } from "../../utils/fasset/MockChain";
+import { MockFlareDataConnectorClient } from "../../utils/fasset/MockFlareDataConnectorClient";
+import { getTestFile } from "../../utils/test-helpers";
+import { createTestContracts, TestSettingsContracts } from "../../utils/test-settings";
+
+contract(`AttestationHelperBatchTests.ts; ${getTestFile(__filename)}; Attestation helper batch proof unit tests`, async accounts => {
+    const governance = accounts[1];
+    const chainInfo = testChainInfo.eth;
+
+    let contracts: TestSettingsContracts;
+    let chain: MockChain;
+    let wallet: MockChainWallet;
+    let flareDataConnectorClient: MockFlareDataConnectorClient;
+    let attestationHelper: AttestationHelper;
+    let transactionLookups: string[];
+
+    beforeEach(async () => {
+        contracts = await createTestContracts(governance);
+        chain = new MockChain(await time.latest());
+        chain.finalizationBlocks = 2;
+        wallet = new MockChainWallet(chain);
+        flareDataConnectorClient = new MockFlareDataConnectorClient(contracts.fdcHub, contracts.relay, { [chainInfo.chainId]: chain }, 'on_wait');
+        attestationHelper = new AttestationHelper(flareDataConnectorClient, chain, chainInfo.chainId);
+        // count transaction lookups
+        transactionLookups = [];
+        const getTransaction = chain.getTransaction.bind(chain);
+        chain.getTransaction = async (txHash: string) => {
+            transactionLookups.push(txHash);
+            return await getTransaction(txHash);
+        };
+    });
+
+    it("prove a batch of requests in one round", async () => {
+        chain.mint("Source1", 1000);
+        const txHash1 = await wallet.addTransaction("Source1", "Target1", 100, PaymentReference.redemption(1));
+        const txHash2 = await wallet.addTransaction("Source1", "Target2", 50, PaymentReference.redemption(2));
+        const endBlock = chain.blockHeight();
+        const endTimestamp = chain.currentTimestamp();
+        chain.skipTime(10);
+        chain.mine(chain.finalizationBlocks + 1);
+        const requests: Record<string, BatchProofRequest> = {
+            payment1: { type: 'payment', transactionHash: txHash1, sourceAddress: "Source1", receivingAddress: "Target1" },
+            payment1Again: { type: 'payment', transactionHash: txHash1, sourceAddress: "Source1", receivingAddress: "Target1" },
+            payment2: { type: 'payment', transactionHash: txHash2, sourceAddress: "Source1", receivingAddress: "Target2" },
+            decreasing1: { type: 'balanceDecreasingTransaction', transactionHash: txHash1, sourceAddress: "Source1" },
+            nonexistence3: { type: 'referencedPaymentNonexistence', destinationAddress: "Target3", paymentReference: PaymentReference.redemption(3),
+                amount: toBN(10), startBlock: 0, endBlock, endTimestamp },
+        };
+        const proofs = await attestationHelper.proveBatch(requests);
+        assert.deepEqual(Object.keys(proofs).sort(), Object.keys(requests).sort());
+        const provedProofs = Object.values(proofs).filter(attestationProved);
+        assert.equal(provedProofs.length, 5);
+        // duplicates are submitted once and share the proof
+        assert.strictEqual(proofs.payment1, proofs.payment1Again);
+        const round = Number(provedProofs[0].data.votingRound);
+        assert.isTrue(provedProofs.every(proof => Number(proof.data.votingRound) === round));
+        assert.equal(flareDataConnectorClient.rounds[round].length, 4);
+        // every transaction is looked up once
+        assert.deepEqual(transactionLookups, [txHash1, txHash2]);
+        assert.equal((proofs.payment2 as Payment.Proof).data.responseBody.receivedAmount, "50");
+    });
+
+    it("report requests for unknown transactions as disproved without failing the batch", async () => {
+        chain.mint("Source1", 1000);
+        const txHash1 = await wallet.addTransaction("Source1", "Target1", 100, PaymentReference.redemption(1));
+        chain.mine(chain.finalizationBlocks + 1);
+        const proofs = await attestationHelper.proveBatch({
+            payment1: { type: 'payment', transactionHash: txHash1, sourceAddress: "Source1", receivingAddress: "Target1" },
+            unknown: { type: 'payment', transactionHash: "0x" + "12".repeat(32), sourceAddress: "Source1", receivingAddress: "Target1" },
+        });
+        assert.isTrue(attestationProved(proofs.payment1));
+        assert.equal(proofs.unknown, AttestationNotProved.DISPROVED);
+    });
+
+    it("report unprovable requests as disproved", async () => {
+        chain.mint("Source1", 1000);
+        const txHash1 = await wallet.addTransaction("Source1", "Target1", 100, PaymentReference.redemption(1));
+        chain.mine(chain.finalizationBlocks + 1);
+        const proofs = await attestationHelper.proveBatch({
+            payment1: { type: 'payment', transactionHash: txHash1, sourceAddress: "Source1", receivingAddress: "Target1" },
+            // the referenced payment exists, so nonexistence cannot be proved
+            nonexistence1: { type: 'referencedPaymentNonexistence', destinationAddress: "Target1", paymentReference: PaymentReference.redemption(1),
+                amount: toBN(100), startBlock: 0, endBlock: chain.blockHeight() - chain.finalizationBlocks - 1, endTimestamp: chain.currentTimestamp() - chain.finalizationBlocks - 1 },
+        });
+        assert.isTrue(attestationProved(proofs.payment1));
+        assert.equal(proofs.nonexistence1, AttestationNotProved.DISPROVED);
+    });
+});
@@ -0,0 +1,75 @@
+import { Payment } from "@flarenetwork/state-connector-protocol";
+import { time } from "@openzeppelin/test-helpers";
+import { PaymentReference } from "../../../lib/fasset/PaymentReference";
+import { AttestationHelper, attestationProved, BatchProofRequest } from "../../../lib/underlying-chain/AttestationHelper";
+import { AttestationProofVerifier, attestationProofMerkleRoot, ProofVerificationFailure, verifyAttestationProof } from "../../../lib/underlying-chain/AttestationProofVerifier";
+import { toBN } from "../../../lib/utils/helpers";
+import { testChainInfo } from "../../integration/utils/TestChainInfo";
+import { MockChain, MockChainWallet } from "../../utils/fasset/MockChain";
+import { MockFlareDataConnectorClient } from "../../utils/fasset/MockFlareDataConnectorClient";
+import { getTestFile } from "../../utils/test-helpers";
+import { createTestContracts, TestSettingsContracts } from "../../utils/test-settings";
+
+contract(`AttestationProofVerifierTests.ts; ${getTestFile(__filename)}; Attestation proof verifier unit tests`, async accounts => {
+    const governance = accounts[1];
+    const chainInfo = testChainInfo.eth;
+
+    let contracts: TestSettingsContracts;
+    let chain: MockChain;
+    let wallet: MockChainWallet;
+    let attestationHelper: AttestationHelper;
+    let verifier: AttestationProofVerifier;
+
+    // prove several payments in the same round, so that the Merkle proofs are not empty
+    async function provePayments(count: number) {
+        chain.mint("Source1", 1000);
+        const requests: Record<string, BatchProofRequest> = {};
+        for (let i = 0; i < count; i++) {
+            const txHash = await wallet.addTransaction("Source1", `Target${i}`, 100 + i, PaymentReference.redemption(i));
+            requests[`payment${i}`] = { type: 'payment', transactionHash: txHash, sourceAddress: "Source1", receivingAddress: `Target${i}` };
+        }
+        chain.mine(chain.finalizationBlocks + 1);
+        const proofs = await attestationHelper.proveBatch(requests);
+        return Object.values(proofs).filter(attestationProved) as Payment.Proof[];
+    }
+
+    beforeEach(async () => {
+        contracts = await createTestContracts(governance);
+        chain = new MockChain(await time.latest());
+        wallet = new MockChainWallet(chain);
+        const flareDataConnectorClient = new MockFlareDataConnectorClient(contracts.fdcHub, contracts.relay, { [chainInfo.chainId]: chain }, 'on_wait');
+        attestationHelper = new AttestationHelper(flareDataConnectorClient, chain, chainInfo.chainId);
+        verifier = new AttestationProofVerifier(contracts.relay);
+    });
+
+    it("recompute the relay's Merkle root from proofs", async () => {
+        const proofs = await provePayments(3);
+        assert.equal(proofs.length, 3);
+        for (const proof of proofs) {
+            assert.isAbove(proof.merkleProof.length, 0);
+            assert.equal(attestationProofMerkleRoot(proof), (await verifier.merkleRoot(proof.data.votingRound)).toLowerCase());
+            assert.deepEqual(await verifier.verifyProof(proof), []);
+            assert.isTrue(await contracts.fdcVerification.verifyPayment(proof));
+        }
+    });
+
+    it("detect tampered proofs like the verification contract", async () => {
+        const [proof] = await provePayments(2);
+        const tampered: Payment.Proof = { ...proof, data: { ...proof.data, responseBody: { ...proof.data.responseBody, receivedAmount: "1000" } } };
+        assert.deepEqual(await verifier.verifyProof(tampered), [ProofVerificationFailure.MERKLE_ROOT_MISMATCH]);
+        assert.isFalse(await contracts.fdcVerification.verifyPayment(tampered));
+        // fetched root of another round
+        const otherRoot = await verifier.merkleRoot(Number(proof.data.votingRound) + 1);
+        assert.deepEqual(verifyAttestationProof(proof, otherRoot), [ProofVerificationFailure.MERKLE_ROOT_MISMATCH]);
+    });
+
+    it("validate payment against expected reference, amount and addresses", async () => {
+        const [proof] = await provePayments(1);
+        const expected = { paymentReference: PaymentReference.redemption(0), sourceAddress: "Source1", receivingAddress: "Target0", minReceivedAmount: 100 };
+        assert.deepEqual(await verifier.verifyPayment(proof, expected), []);
+        assert.deepEqual(await verifier.verifyPayment(proof, { ...expected, paymentReference: PaymentReference.redemption(5) }), [ProofVerificationFailure.WRONG_PAYMENT_REFERENCE]);
+        assert.deepEqual(await verifier.verifyPayment(proof, { ...expected, sourceAddress: "Source2" }), [ProofVerificationFailure.WRONG_SOURCE_ADDRESS]);
+        assert.deepEqual(await verifier.verifyPayment(proof, { ...expected, receivingAddress: "Target1" }), [ProofVerificationFailure.WRONG_RECEIVING_ADDRESS]);
+        assert.deepEqual(await verifier.verifyPayment(proof, { ...expected, minReceivedAmount: toBN(101) }), [ProofVerificationFailure.AMOUNT_TOO_LOW]);
+    });
+});
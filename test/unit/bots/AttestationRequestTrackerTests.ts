@@ -0,0 +1,176 @@
+import { AddressValidity, ARBase } from "@flarenetwork/state-connector-protocol";
+import { time } from "@openzeppelin/test-helpers";
+import { AttestationFailureReason, AttestationRequestTracker } from "../../../lib/underlying-chain/AttestationRequestTracker";
+import { AttestationRequestId, IFlareDataConnectorClient, OptionalAttestationProof } from "../../../lib/underlying-chain/interfaces/IFlareDataConnectorClient";
+import { sleep, ZERO_BYTES32 } from "../../../lib/utils/helpers";
+import { MemoryLog } from "../../../lib/utils/logging";
+import { testChainInfo } from "../../integration/utils/TestChainInfo";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { MockFlareDataConnectorClient } from "../../utils/fasset/MockFlareDataConnectorClient";
+import { getTestFile } from "../../utils/test-helpers";
+import { createTestContracts, TestSettingsContracts } from "../../utils/test-settings";
+
+// removes the first `dropCount` submitted requests from their rounds, so that the rounds finalize without them
+class DroppingClient implements IFlareDataConnectorClient {
+    constructor(
+        public client: MockFlareDataConnectorClient,
+        public dropCount: number,
+    ) {}
+
+    submissions = 0;
+    onDrop = () => {};
+
+    roundFinalized(round: number): Promise<boolean> {
+        return this.client.roundFinalized(round);
+    }
+
+    waitForRoundFinalization(round: number): Promise<void> {
+        return this.client.waitForRoundFinalization(round);
+    }
+
+    async submitRequest(request: ARBase): Promise<AttestationRequestId | null> {
+        const result = await this.client.submitRequest(request);
+        this.submissions += 1;
+        if (result != null && this.dropCount > 0) {
+            this.dropCount -= 1;
+            this.client.rounds[result.round] = this.client.rounds[result.round].filter(data => data !== result.data);
+            this.onDrop();
+        }
+        return result;
+    }
+
+    obtainProof(round: number, requestData: string): Promise<OptionalAttestationProof> {
+        return this.client.obtainProof(round, requestData);
+    }
+}
+
+contract(`AttestationRequestTrackerTests.ts; ${getTestFile(__filename)}; Attestation request tracker unit tests`, async accounts => {
+    const governance = accounts[1];
+    const chainInfo = testChainInfo.eth;
+    const attestationWindowSeconds = 86400;
+
+    let contracts: TestSettingsContracts;
+    let flareDataConnectorClient: MockFlareDataConnectorClient;
+
+    function addressValidityRequest(addressStr: string): AddressValidity.Request {
+        return {
+            attestationType: AddressValidity.TYPE,
+            sourceId: chainInfo.chainId,
+            messageIntegrityCode: ZERO_BYTES32,
+            requestBody: { addressStr },
+        };
+    }
+
+    beforeEach(async () => {
+        contracts = await createTestContracts(governance);
+        const chain = new MockChain(await time.latest());
+        flareDataConnectorClient = new MockFlareDataConnectorClient(contracts.fdcHub, contracts.relay, { [chainInfo.chainId]: chain }, 'on_wait');
+    });
+
+    it("prove request in the first round", async () => {
+        const tracker = new AttestationRequestTracker(flareDataConnectorClient, attestationWindowSeconds);
+        const result = await tracker.track<AddressValidity.Proof>("address", addressValidityRequest("Agent1"));
+        assert.isTrue(result.proved);
+        assert.equal(result.attempts, 1);
+        if (result.proved) {
+            assert.equal(result.proof.data.responseBody.standardAddress, "Agent1");
+        }
+        assert.equal(tracker.outstandingKeys().length, 0);
+    });
+
+    it("resubmit dropped request in a later round", async () => {
+        const client = new DroppingClient(flareDataConnectorClient, 2);
+        const tracker = new AttestationRequestTracker(client, attestationWindowSeconds);
+        tracker.retryDelayMs = 0;
+        const result = await tracker.track("address", addressValidityRequest("Agent1"));
+        assert.isTrue(result.proved);
+        assert.equal(result.attempts, 3);
+        assert.equal(client.submissions, 3);
+    });
+
+    it("fail with disproved reason after max attempts", async () => {
+        const client = new DroppingClient(flareDataConnectorClient, 10);
+        const tracker = new AttestationRequestTracker(client, attestationWindowSeconds, 2);
+        tracker.retryDelayMs = 0;
+        const result = await tracker.track("address", addressValidityRequest("Agent1"));
+        assert.isFalse(result.proved);
+        assert.equal(result.attempts, 2);
+        if (!result.proved) {
+            assert.equal(result.reason, AttestationFailureReason.DISPROVED);
+        }
+    });
+
+    it("stop resubmitting when the attestation window passes", async () => {
+        const client = new DroppingClient(flareDataConnectorClient, 10);
+        const tracker = new AttestationRequestTracker(client, attestationWindowSeconds, 10);
+        tracker.retryDelayMs = 0;
+        let timestamp = 1000;
+        tracker.timestamp = async () => timestamp;
+        client.onDrop = () => timestamp += attestationWindowSeconds / 2 + 1;
+        const result = await tracker.track("address", addressValidityRequest("Agent1"), timestamp);
+        assert.isFalse(result.proved);
+        assert.equal(result.attempts, 2);
+        if (!result.proved) {
+            assert.equal(result.reason, AttestationFailureReason.WINDOW_EXPIRED);
+        }
+    });
+
+    it("count the attestation window from the proved data's timestamp", async () => {
+        const client = new DroppingClient(flareDataConnectorClient, 10);
+        const tracker = new AttestationRequestTracker(client, attestationWindowSeconds, 10);
+        tracker.retryDelayMs = 0;
+        let timestamp = 1000 + attestationWindowSeconds - 10;
+        tracker.timestamp = async () => timestamp;
+        client.onDrop = () => timestamp += 20;
+        // the data is almost as old as the attestation window, so there is time for only one attempt
+        const result = await tracker.track("address", addressValidityRequest("Agent1"), 1000);
+        assert.isFalse(result.proved);
+        assert.equal(result.attempts, 1);
+        if (!result.proved) {
+            assert.equal(result.reason, AttestationFailureReason.WINDOW_EXPIRED);
+        }
+    });
+
+    it("return the same promise for the same logical proof", async () => {
+        const client = new DroppingClient(flareDataConnectorClient, 0);
+        const tracker = new AttestationRequestTracker(client, attestationWindowSeconds);
+        const result1 = tracker.track("address", addressValidityRequest("Agent1"));
+        const result2 = tracker.track("address", addressValidityRequest("Agent1"));
+        assert.strictEqual(result1, result2);
+        assert.strictEqual(tracker.result("address"), result1);
+        await result1;
+        assert.equal(client.submissions, 1);
+    });
+
+    it("log errors of restored requests", async () => {
+        const failingClient = new DroppingClient(flareDataConnectorClient, 0);
+        failingClient.submitRequest = async () => { throw new Error("submission failed"); };
+        const tracker = new AttestationRequestTracker(failingClient, attestationWindowSeconds);
+        const memoryLog = new MemoryLog();
+        tracker.logger = memoryLog;
+        tracker.restoreState([{ key: "address", request: addressValidityRequest("Agent1"), attempts: 0, referenceTimestamp: null, submitted: null, lastFailure: null }]);
+        while (tracker.outstandingKeys().length > 0) await sleep(10);
+        await sleep(10);
+        assert.equal(memoryLog.logs.length, 1);
+        assert.include(memoryLog.logs[0], "submission failed");
+    });
+
+    it("continue outstanding requests after restoring the state", async () => {
+        const manualClient = new MockFlareDataConnectorClient(contracts.fdcHub, contracts.relay, flareDataConnectorClient.supportedChains, 'manual');
+        const tracker = new AttestationRequestTracker(manualClient, attestationWindowSeconds);
+        void tracker.track("address", addressValidityRequest("Agent1"));
+        while (tracker.saveState()[0].submitted == null) await sleep(10);
+        const state = JSON.parse(JSON.stringify(tracker.saveState()));
+        assert.equal(state.length, 1);
+        assert.equal(state[0].submitted.round, 0);
+        // new tracker continues waiting for the submitted round, without resubmitting
+        const restoredTracker = new AttestationRequestTracker(manualClient, attestationWindowSeconds);
+        restoredTracker.restoreState(state);
+        assert.deepEqual(restoredTracker.outstandingKeys(), ["address"]);
+        await manualClient.finalizeRound();
+        const result = await restoredTracker.result("address")!;
+        assert.isTrue(result.proved);
+        assert.equal(result.attempts, 1);
+        assert.equal(manualClient.rounds[0].length, 1);
+    });
+});
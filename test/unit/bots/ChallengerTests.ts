@@ -1,13 +1,18 @@
-import { Challenger } from "../../../lib/actors/Challenger";
+import { expectRevert } from "@openzeppelin/test-helpers";
+import { ChallengeDecision, Challenger, ViolationRule } from "../../../lib/actors/Challenger";
 import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
 import { PaymentReference } from "../../../lib/fasset/PaymentReference";
+import { ICheckpointStore, StateCheckpoint, StateCheckpointer } from "../../../lib/state/StateCheckpoint";
+import { tokenBalance } from "../../../lib/state/TokenPrice";
 import { TrackedState } from "../../../lib/state/TrackedState";
 import { UnderlyingChainEvents } from "../../../lib/underlying-chain/UnderlyingChainEvents";
 import { EventArgs } from "../../../lib/utils/events/common";
+import { HistoricalEvmEvents } from "../../../lib/utils/events/HistoricalEvmEvents";
 import { EventExecutionQueue } from "../../../lib/utils/events/ScopedEvents";
 import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
 import { sleep, toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
-import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { parseJson, stringifyJson } from "../../../lib/utils/json-bn";
+import { ILogger, MemoryLog, NullLog } from "../../../lib/utils/logging";
 import { RedemptionRequested } from "../../../typechain-truffle/IIAssetManager";
 import { InterceptorEvmEvents } from "../../fuzzing/fasset/InterceptorEvmEvents";
 import { TruffleTransactionInterceptor } from "../../fuzzing/fasset/TransactionInterceptor";
@@ -67,6 +72,15 @@ contract(`ChallengerTests.ts; ${getTestFile(__filename)}; Challenger bot unit te
         await minter.executeMinting(crt, txHash);
     }
 
+    // simulates file storage by JSON round trip
+    function memoryCheckpointStore(): ICheckpointStore {
+        let savedJson: string | null = null;
+        return {
+            load: async () => savedJson != null ? parseJson(savedJson) as StateCheckpoint : null,
+            save: async (checkpoint) => { savedJson = stringifyJson(checkpoint); },
+        };
+    }
+
     async function getAgentStatus(agent: Agent) {
         const agentInfo = await agent.getAgentInfo();
         return Number(agentInfo.status) as AgentStatus;
@@ -124,6 +138,21 @@ contract(`ChallengerTests.ts; ${getTestFile(__filename)}; Challenger bot unit te
         assert.equal(status1, AgentStatus.FULL_LIQUIDATION);
     });
 
+    it("withdraw illegal payment challenge when the payment is reverted by reorg", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        await performMinting(minter, agent, 50);
+        chain.finalizationBlocks = 3;
+        const agentInfo = await agent.getAgentInfo();
+        await agent.performPayment(underlyingOwner1, toBN(agentInfo.mintedUBA).divn(2));
+        // the payment block is replaced by a fork without the payment
+        chain.fork(1);
+        await waitThreadsToFinish();
+        const status1 = await getAgentStatus(agent);
+        assert.equal(status1, AgentStatus.NORMAL);
+        assert.isFalse(challenger.unconfirmedTransactions.has(agent.agentVault.address));
+        assert.equal(challenger.evidenceReport(agent.vaultAddress).violations.length, 0);
+    });
+
     it("challenge illegal payment - reference for nonexisting redemption", async () => {
         const challenger = new Challenger(runner, trackedState, challengerAddress1);
         await performMinting(minter, agent, 50);
@@ -324,4 +353,213 @@ contract(`ChallengerTests.ts; ${getTestFile(__filename)}; Challenger bot unit te
         assert.equal(await getAgentStatus(agent), AgentStatus.FULL_LIQUIDATION);
     });
 
+    it("report withdrawal from address learned from top-up", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        await performMinting(minter, agent, 50);
+        const topupTxHash = await agent.performTopupPayment(1000, true, "Agent1Change");
+        await waitThreadsToFinish();
+        await agent.confirmTopupPayment(topupTxHash);
+        await waitThreadsToFinish();
+        assert.deepEqual(challenger.evidenceReport(agent.vaultAddress).watchedAddresses, ["Agent1Change"]);
+        // withdraw from the watched address
+        chain.mint("Agent1Change", 1000);
+        const txHash = await agent.wallet.addTransaction("Agent1Change", underlyingOwner1, 1000, null);
+        await waitThreadsToFinish();
+        const report = challenger.evidenceReport(agent.vaultAddress);
+        assert.equal(report.violations.length, 1);
+        assert.equal(report.violations[0].rule, ViolationRule.ILLEGAL_PAYMENT);
+        assert.deepEqual(report.violations[0].transactionHashes, [txHash]);
+        assert.deepEqual(report.violations[0].sourceAddresses, ["Agent1Change"]);
+        assert.isFalse(report.violations[0].challengeable);
+        // cannot be proved on chain
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+    });
+
+    it("forget evidence of withdrawal from watched address reverted by reorg", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        challenger.watchAddress(agent.vaultAddress, "Agent1Change");
+        chain.mint("Agent1Change", 1000);
+        const txHash = await agent.wallet.addTransaction("Agent1Change", underlyingOwner1, 1000, null);
+        eventQueue.runAll();
+        assert.deepEqual(challenger.evidenceReport(agent.vaultAddress).violations.map(v => v.transactionHashes), [[txHash]]);
+        // the transaction is included again in the new fork
+        chain.fork(1, 2, true);
+        eventQueue.runAll();
+        assert.deepEqual(challenger.evidenceReport(agent.vaultAddress).violations.map(v => v.transactionHashes), [[txHash]]);
+        // the transaction vanishes
+        chain.fork(2);
+        eventQueue.runAll();
+        assert.equal(challenger.evidenceReport(agent.vaultAddress).violations.length, 0);
+    });
+
+    it("challenge multi-input transaction from main and watched address once", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        challenger.watchAddress(agent.vaultAddress, "Agent1Change");
+        await performMinting(minter, agent, 50);
+        const agentInfo = await agent.getAgentInfo();
+        const amount = toBN(agentInfo.mintedUBA).divn(2);
+        chain.mint("Agent1Change", 1000);
+        const txHash = await agent.wallet.addMultiTransaction({ [agent.underlyingAddress]: amount, "Agent1Change": 1000 }, { [underlyingOwner1]: amount.addn(1000) }, null);
+        await waitThreadsToFinish();
+        assert.equal(await getAgentStatus(agent), AgentStatus.FULL_LIQUIDATION);
+        const report = challenger.evidenceReport(agent.vaultAddress);
+        assert.equal(report.violations.length, 1);
+        assert.equal(report.violations[0].rule, ViolationRule.ILLEGAL_PAYMENT);
+        assert.deepEqual(report.violations[0].transactionHashes, [txHash]);
+        assert.isTrue(report.violations[0].challengeable);
+    });
+
+    it("report double payment evidence", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        await performMinting(minter, agent, 50);
+        const [reqs] = await redeemer.requestRedemption(10);
+        const txHash1 = await agent.performRedemptionPayment(reqs[0]);
+        await waitThreadsToFinish();
+        assert.equal(challenger.evidenceReport(agent.vaultAddress).violations.length, 0);
+        const txHash2 = await agent.performRedemptionPayment(reqs[0]);
+        await waitThreadsToFinish();
+        const report = challenger.evidenceReport(agent.vaultAddress);
+        assert.equal(report.underlyingAddress, agent.underlyingAddress);
+        assert.equal(report.violations.length, 1);
+        assert.equal(report.violations[0].rule, ViolationRule.DOUBLE_PAYMENT);
+        assert.deepEqual(report.violations[0].transactionHashes, [txHash1, txHash2]);
+    });
+
+    it("estimated challenge reward matches the payout", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        await performMinting(minter, agent, 50);
+        await waitThreadsToFinish();
+        const trackedAgent = trackedState.getAgent(agent.vaultAddress)!;
+        const estimate = await challenger.estimateChallenge(trackedAgent, ViolationRule.ILLEGAL_PAYMENT, 1);
+        assert.isTrue(estimate.profitUBA.gtn(0));
+        assert.equal(challenger.challengeDecision(estimate, 0), ChallengeDecision.SUBMIT);
+        const agentInfo = await agent.getAgentInfo();
+        await agent.performPayment(underlyingOwner1, toBN(agentInfo.mintedUBA).divn(2));
+        await waitThreadsToFinish();
+        assert.equal(await getAgentStatus(agent), AgentStatus.FULL_LIQUIDATION);
+        const reward = await tokenBalance(agentInfo.vaultCollateralToken, challengerAddress1);
+        assert.equal(String(reward), String(estimate.rewardVaultCollateralWei));
+    });
+
+    it("skip unprofitable challenge", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        challenger.minChallengeProfitUBA = toBNExp(1, 30);
+        challenger.maxUnprofitableChallengeDelays = 0;
+        await performMinting(minter, agent, 50);
+        const agentInfo = await agent.getAgentInfo();
+        await agent.performPayment(underlyingOwner1, toBN(agentInfo.mintedUBA).divn(2));
+        await waitThreadsToFinish();
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+        // the violation is still reported
+        assert.equal(challenger.evidenceReport(agent.vaultAddress).violations.length, 1);
+    });
+
+    it("skip unprofitable challenge when prices don't change", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        challenger.minChallengeProfitUBA = toBNExp(1, 30);
+        challenger.maxPriceUpdateWaitMS = 100;
+        const memoryLog = new MemoryLog();
+        trackedState.logger = memoryLog;
+        await performMinting(minter, agent, 50);
+        const agentInfo = await agent.getAgentInfo();
+        await agent.performPayment(underlyingOwner1, toBN(agentInfo.mintedUBA).divn(2));
+        await waitThreadsToFinish();
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+        assert.isTrue(memoryLog.logs.some(line => line.includes(`no price update for 100ms, skipping ${ViolationRule.ILLEGAL_PAYMENT} challenge`)));
+    });
+
+    it("count won challenge race", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        await performMinting(minter, agent, 50);
+        const agentInfo = await agent.getAgentInfo();
+        await agent.performPayment(underlyingOwner1, toBN(agentInfo.mintedUBA).divn(2));
+        await waitThreadsToFinish();
+        assert.equal(await getAgentStatus(agent), AgentStatus.FULL_LIQUIDATION);
+        assert.deepEqual(challenger.challengeRaceStats, { won: 1, lost: 0, cancelled: 0 });
+    });
+
+    it("cancel challenge when a competitor challenges first", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        chain.finalizationBlocks = 3;
+        await performMinting(minter, agent, 50);
+        const agentInfo = await agent.getAgentInfo();
+        const txHash = await agent.performPayment(underlyingOwner1, toBN(agentInfo.mintedUBA).divn(2));
+        // let the challenger start the challenge and wait for the transaction finalization
+        eventQueue.runAll();
+        await sleep(100);
+        // competitor challenges first
+        chain.mine(3);
+        const proof = await context.attestationProvider.proveBalanceDecreasingTransaction(txHash, agent.underlyingAddress);
+        await context.assetManager.illegalPaymentChallenge(proof, agent.vaultAddress, { from: accounts[51] });
+        await waitThreadsToFinish();
+        assert.equal(await getAgentStatus(agent), AgentStatus.FULL_LIQUIDATION);
+        assert.deepEqual(challenger.challengeRaceStats, { won: 0, lost: 0, cancelled: 1 });
+        // the reward went to the competitor
+        assert.equal(String(await tokenBalance(agentInfo.vaultCollateralToken, challengerAddress1)), "0");
+    });
+
+    it("restore challenger state from checkpoint", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        await performMinting(minter, agent, 50);
+        const [reqs] = await redeemer.requestRedemption(10);
+        await agent.performRedemptionPayment(reqs[0]);
+        await waitThreadsToFinish();
+        const store = memoryCheckpointStore();
+        await new StateCheckpointer(trackedState, store, [challenger]).save();
+        // restore into new state and challenger
+        const checkpoint = await store.load();
+        assert.isNotNull(checkpoint);
+        const restoredState = new TrackedState(context, truffleEvents, chainEvents, eventDecoder, eventQueue);
+        await restoredState.initialize(checkpoint!.trackedState);
+        const restoredChallenger = new Challenger(runner, restoredState, challengerAddress1);
+        new StateCheckpointer(restoredState, store, [restoredChallenger]).restoreActors(checkpoint!);
+        // compare
+        assert.equal(stringifyJson(restoredState.saveState()), stringifyJson(trackedState.saveState()));
+        assert.equal(stringifyJson(restoredChallenger.saveState()), stringifyJson(challenger.saveState()));
+        assert.equal(restoredChallenger.activeRedemptions.size, 1);
+    });
+
+    it("resume from checkpoint with the events and transactions that happened while stopped", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        await performMinting(minter, agent, 50);
+        await waitThreadsToFinish();
+        const store = memoryCheckpointStore();
+        await new StateCheckpointer(trackedState, store, [challenger]).save();
+        // redemption is requested and paid after the checkpoint
+        const [reqs] = await redeemer.requestRedemption(10);
+        const txHash = await agent.performRedemptionPayment(reqs[0]);
+        await waitThreadsToFinish();
+        // restore - the original challenger kept running, so the restored one must catch up to the same state
+        const checkpoint = (await store.load())!;
+        const restoredEvents = new HistoricalEvmEvents(eventQueue, checkpoint.lastEvmBlock + 1);
+        const restoredState = new TrackedState(context, restoredEvents, chainEvents, eventDecoder, eventQueue);
+        await restoredState.initialize(checkpoint.trackedState);
+        const restoredChallenger = new Challenger(runner, restoredState, challengerAddress1);
+        await new StateCheckpointer(restoredState, store, [restoredChallenger]).resume(checkpoint, restoredEvents);
+        assert.equal(String(restoredState.fAssetSupply), String(trackedState.fAssetSupply));
+        assert.equal(String(restoredState.getAgent(agent.vaultAddress)?.redeemingUBA), String(trackedState.getAgent(agent.vaultAddress)?.redeemingUBA));
+        assert.equal(stringifyJson(restoredChallenger.saveState()), stringifyJson(challenger.saveState()));
+        // the payment matched the replayed redemption request, so it is not a violation
+        assert.isTrue(restoredChallenger.unconfirmedTransactions.get(agent.vaultAddress)?.has(txHash));
+        assert.equal(restoredChallenger.evidenceReport(agent.vaultAddress).violations.length, 0);
+        // continue with new events
+        await agent.confirmActiveRedemptionPayment(reqs[0], txHash);
+        await restoredEvents.replay();
+        await waitThreadsToFinish();
+        assert.equal(restoredChallenger.activeRedemptions.size, 0);
+        assert.isFalse(restoredChallenger.unconfirmedTransactions.has(agent.vaultAddress));
+        assert.equal(stringifyJson(restoredChallenger.saveState()), stringifyJson(challenger.saveState()));
+    });
+
+    it("resume from checkpoint only with events replayed from the checkpoint block", async () => {
+        await performMinting(minter, agent, 50);
+        const store = memoryCheckpointStore();
+        const checkpoint = await new StateCheckpointer(trackedState, store).save();
+        const restoredEvents = new HistoricalEvmEvents(eventQueue, checkpoint.lastEvmBlock);
+        const restoredState = new TrackedState(context, restoredEvents, chainEvents, eventDecoder, eventQueue);
+        await restoredState.initialize(checkpoint.trackedState);
+        await expectRevert(new StateCheckpointer(restoredState, store).resume(checkpoint, restoredEvents),
+            `EVM events must be replayed from block ${checkpoint.lastEvmBlock + 1}`);
+    });
+
 });
@@ -0,0 +1,165 @@
+import { network } from "hardhat";
+import { CollateralBand, CollateralPolicyActionType, CollateralPolicyEngine } from "../../../lib/actors/CollateralPolicyEngine";
+import { CollateralClass } from "../../../lib/fasset/AssetManagerTypes";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { EventExecutionQueue } from "../../../lib/utils/events/ScopedEvents";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { sleep, toBN, toBNExp, toHex, toWei } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { TruffleTransactionInterceptor } from "../../fuzzing/fasset/TransactionInterceptor";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestContext, performMinting, dropVaultCollateralRatio } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { deterministicTimeIncrease, getTestFile } from "../../utils/test-helpers";
+import { assertWeb3Equal } from "../../utils/web3assertions";
+
+contract(`CollateralPolicyEngineTests.ts; ${getTestFile(__filename)}; Collateral policy engine unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let interceptor: TruffleTransactionInterceptor;
+    let eventQueue: EventExecutionQueue;
+    let trackedState: TrackedState;
+    let logger: ILogger;
+    let runner: ScopedRunner;
+
+    let agent: Agent;
+    let minter: Minter;
+
+    async function waitForAction(engine: CollateralPolicyEngine, type: CollateralPolicyActionType) {
+        while (!engine.actions.some(action => action.type === type)) {
+            chain.mine();
+            await sleep(20);
+            eventQueue.runAll();
+            await interceptor.allHandled();
+        }
+    }
+
+    function createEngine(vaultBand: CollateralBand) {
+        return new CollateralPolicyEngine(runner, trackedState, agent.vaultAddress, agent.ownerWorkAddress, new Map([[CollateralClass.VAULT, vaultBand]]));
+    }
+
+    function band(lowRatioBIPS: number, targetRatioBIPS: number, highRatioBIPS?: number): CollateralBand {
+        return { lowRatioBIPS: toBN(lowRatioBIPS), targetRatioBIPS: toBN(targetRatioBIPS), highRatioBIPS: highRatioBIPS != null ? toBN(highRatioBIPS) : undefined };
+    }
+
+    function vaultCollateralRatioBIPS() {
+        const trackedAgent = trackedState.getAgent(agent.vaultAddress)!;
+        return trackedAgent.collateralRatioBIPS(trackedAgent.vaultCollateral);
+    }
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/collateral-policy-engine.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, interceptor, eventQueue, trackedState, runner } = botContext);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+    });
+
+    it("deposits vault collateral from the owner's address when collateral ratio falls below the band", async () => {
+        const engine = createEngine(band(15000, 17000));
+        await performMinting(minter, agent, 50);
+        await context.usdc.mintAmount(agent.ownerWorkAddress, toWei(1e8));
+        await dropVaultCollateralRatio(agent, 14200);
+        await botContext.waitThreadsToFinish();
+        assert.equal(engine.actions.length, 1);
+        assert.equal(engine.actions[0].type, CollateralPolicyActionType.DEPOSIT);
+        assert.isTrue(vaultCollateralRatioBIPS().gten(17000));
+        // no further action inside the band
+        await context.priceStore.finalizePrices();
+        await botContext.waitThreadsToFinish();
+        assert.equal(engine.actions.length, 1);
+    });
+
+    it("deposits only what the owner has", async () => {
+        const engine = createEngine(band(15000, 17000));
+        await performMinting(minter, agent, 50);
+        const ownerBalance = toWei(1);
+        await context.usdc.mintAmount(agent.ownerWorkAddress, ownerBalance);
+        await dropVaultCollateralRatio(agent, 14200);
+        await botContext.waitThreadsToFinish();
+        assert.equal(engine.actions.length, 1);
+        assertWeb3Equal(engine.actions[0].amountWei, ownerBalance);
+        assert.isTrue(vaultCollateralRatioBIPS().ltn(17000));
+    });
+
+    it("withdraws excess vault collateral after the withdrawal wait", async () => {
+        const engine = createEngine(band(15000, 20000, 30000));
+        await performMinting(minter, agent, 50);
+        const ownerBalanceBefore = await context.usdc.balanceOf(agent.ownerWorkAddress);
+        await context.priceStore.finalizePrices();
+        // the withdrawal thread keeps running until the time lock expires
+        await waitForAction(engine, CollateralPolicyActionType.WITHDRAWAL_ANNOUNCED);
+        assert.equal(runner.runningThreads, 1);
+        await deterministicTimeIncrease(Number(context.settings.withdrawalWaitMinSeconds) + 1);
+        await botContext.waitThreadsToFinish();
+        assert.deepEqual(engine.actions.map(action => action.type), [CollateralPolicyActionType.WITHDRAWAL_ANNOUNCED, CollateralPolicyActionType.WITHDRAWAL]);
+        const withdrawnWei = engine.actions[1].amountWei;
+        assertWeb3Equal(await context.usdc.balanceOf(agent.ownerWorkAddress), ownerBalanceBefore.add(withdrawnWei));
+        const ratioBIPS = vaultCollateralRatioBIPS();
+        assert.isTrue(ratioBIPS.gten(20000) && ratioBIPS.ltn(30000), `unexpected collateral ratio ${ratioBIPS}`);
+    });
+
+    it("cancels the withdrawal when the excess disappears during the wait", async () => {
+        const engine = createEngine(band(15000, 20000, 30000));
+        await performMinting(minter, agent, 50);
+        await context.priceStore.finalizePrices();
+        await waitForAction(engine, CollateralPolicyActionType.WITHDRAWAL_ANNOUNCED);
+        await dropVaultCollateralRatio(agent, 19000);
+        await deterministicTimeIncrease(Number(context.settings.withdrawalWaitMinSeconds) + 1);
+        await botContext.waitThreadsToFinish();
+        assert.deepEqual(engine.actions.map(action => action.type), [CollateralPolicyActionType.WITHDRAWAL_ANNOUNCED, CollateralPolicyActionType.WITHDRAWAL_CANCELLED]);
+        const agentInfo = await context.assetManager.getAgentInfo(agent.vaultAddress);
+        assertWeb3Equal(agentInfo.announcedVaultCollateralWithdrawalWei, 0);
+    });
+
+    it("buys pool tokens only with the owner's spare NAT", async () => {
+        const engine = new CollateralPolicyEngine(runner, trackedState, agent.vaultAddress, agent.ownerWorkAddress, new Map([[CollateralClass.POOL, band(25000, 30000)]]));
+        await performMinting(minter, agent, 50);
+        // 1 NAT stays on the owner's address for fees
+        await network.provider.send("hardhat_setBalance", [agent.ownerWorkAddress, toHex(toWei(3))]);
+        await agent.setPoolCollateralRatioByChangingAssetPrice(22000);
+        await context.priceStore.finalizePrices();
+        await botContext.waitThreadsToFinish();
+        assert.equal(engine.actions.length, 1);
+        assert.equal(engine.actions[0].type, CollateralPolicyActionType.POOL_DEPOSIT);
+        assertWeb3Equal(engine.actions[0].amountWei, toWei(2));
+        // less than the pool's minimum deposit is left
+        await context.priceStore.finalizePrices();
+        await botContext.waitThreadsToFinish();
+        assert.equal(engine.actions.length, 1);
+    });
+
+    it("stops waiting for the withdrawal time lock when stopped", async () => {
+        const engine = createEngine(band(15000, 20000, 30000));
+        await performMinting(minter, agent, 50);
+        await context.priceStore.finalizePrices();
+        await waitForAction(engine, CollateralPolicyActionType.WITHDRAWAL_ANNOUNCED);
+        engine.stop();
+        await deterministicTimeIncrease(Number(context.settings.withdrawalWaitMinSeconds) + 1);
+        for (let i = 0; i < 5; i++) {
+            chain.mine();
+            await sleep(1100);
+            eventQueue.runAll();
+            await interceptor.allHandled();
+        }
+        assert.deepEqual(engine.actions.map(action => action.type), [CollateralPolicyActionType.WITHDRAWAL_ANNOUNCED]);
+    });
+
+    it("rejects inconsistent bands", async () => {
+        assert.throws(() => createEngine(band(17000, 15000)), "Invalid VAULT collateral band");
+        assert.throws(() => createEngine(band(15000, 20000, 18000)), "Invalid VAULT collateral band");
+    });
+});
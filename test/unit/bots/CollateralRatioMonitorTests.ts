@@ -0,0 +1,107 @@
+import { CollateralRatioAlert, CollateralRatioAlertLevel, CollateralRatioMonitor } from "../../../lib/actors/CollateralRatioMonitor";
+import { CollateralClass } from "../../../lib/fasset/AssetManagerTypes";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { toBNExp, toWei } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestContext, performMinting, dropVaultCollateralRatio } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`CollateralRatioMonitorTests.ts; ${getTestFile(__filename)}; Collateral ratio monitor unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let trackedState: TrackedState;
+    let logger: ILogger;
+    let runner: ScopedRunner;
+
+    let agent: Agent;
+    let minter: Minter;
+    let monitor: CollateralRatioMonitor;
+    let vaultAlerts: CollateralRatioAlert[];
+
+    function lastVaultAlert() {
+        assert.isAbove(vaultAlerts.length, 0, "no vault collateral alerts");
+        return vaultAlerts[vaultAlerts.length - 1];
+    }
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/collateral-ratio-monitor.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, trackedState, runner } = botContext);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        monitor = new CollateralRatioMonitor(runner, trackedState, [agent.vaultAddress]);
+        vaultAlerts = [];
+        monitor.alert.subscribe(alert => { if (alert.collateralClass === CollateralClass.VAULT) vaultAlerts.push(alert); });
+    });
+
+    it("no alerts at healthy collateral ratio", async () => {
+        await performMinting(minter, agent, 50);
+        await context.priceStore.finalizePrices();
+        await botContext.waitThreadsToFinish();
+        assert.equal(vaultAlerts.length, 0);
+        assert.equal(monitor.alertLevels.get(`${agent.vaultAddress}:${CollateralClass.VAULT}`), CollateralRatioAlertLevel.OK);
+    });
+
+    it("graded alerts as vault collateral ratio drops", async () => {
+        await performMinting(minter, agent, 50);
+        // below safety ratio (1.5) and minting ratio (1.6)
+        await dropVaultCollateralRatio(agent, 15500);
+        await botContext.waitThreadsToFinish();
+        assert.equal(lastVaultAlert().level, CollateralRatioAlertLevel.WARNING);
+        // close to minCollateralRatio (1.4)
+        await dropVaultCollateralRatio(agent, 14200);
+        await botContext.waitThreadsToFinish();
+        assert.equal(lastVaultAlert().level, CollateralRatioAlertLevel.CCB_IMMINENT);
+        // below ccbMinCollateralRatio (1.3)
+        await dropVaultCollateralRatio(agent, 12000);
+        await botContext.waitThreadsToFinish();
+        assert.equal(lastVaultAlert().level, CollateralRatioAlertLevel.LIQUIDATION_IMMINENT);
+    });
+
+    it("alert only when the level changes", async () => {
+        await performMinting(minter, agent, 50);
+        await dropVaultCollateralRatio(agent, 15500);
+        await botContext.waitThreadsToFinish();
+        assert.equal(vaultAlerts.length, 1);
+        assert.equal(lastVaultAlert().level, CollateralRatioAlertLevel.WARNING);
+        // the same level at the next price update
+        await context.priceStore.finalizePrices();
+        await botContext.waitThreadsToFinish();
+        assert.equal(vaultAlerts.length, 1);
+        // back to OK
+        await agent.depositVaultCollateral(lastVaultAlert().topUpWei);
+        await context.priceStore.finalizePrices();
+        await botContext.waitThreadsToFinish();
+        assert.equal(vaultAlerts.length, 2);
+        assert.equal(lastVaultAlert().level, CollateralRatioAlertLevel.OK);
+    });
+
+    it("topping up by the alerted amount restores the target ratio", async () => {
+        await performMinting(minter, agent, 50);
+        await dropVaultCollateralRatio(agent, 14200);
+        await botContext.waitThreadsToFinish();
+        const alert = lastVaultAlert();
+        assert.isTrue(alert.topUpWei.gtn(0));
+        await agent.depositVaultCollateral(alert.topUpWei);
+        await botContext.waitThreadsToFinish();
+        const trackedAgent = trackedState.getAgent(agent.vaultAddress)!;
+        assert.isTrue(trackedAgent.collateralRatioBIPS(trackedAgent.vaultCollateral).gte(alert.targetRatioBIPS));
+        assert.equal(monitor.evaluate(trackedAgent, trackedAgent.vaultCollateral).level, CollateralRatioAlertLevel.OK);
+    });
+});
@@ -0,0 +1,117 @@
+import { Executor, ExecutorJobStatus, ExecutorJobType } from "../../../lib/actors/Executor";
+import { RedemptionDeadlineTracker } from "../../../lib/state/RedemptionDeadlineTracker";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { EventArgs } from "../../../lib/utils/events/common";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { RedemptionRequested } from "../../../typechain-truffle/IIAssetManager";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { BotTestContext, performMinting } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`ExecutorTests.ts; ${getTestFile(__filename)}; Executor unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+    const executorAddress = accounts[88];
+    const executorFee = toBNExp(100, 9);
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let trackedState: TrackedState;
+    let deadlineTracker: RedemptionDeadlineTracker;
+    let logger: ILogger;
+    let runner: ScopedRunner;
+
+    let agent: Agent;
+    let minter: Minter;
+    let redeemer: Redeemer;
+    let executor: Executor;
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/executor.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, trackedState, runner } = botContext);
+        deadlineTracker = new RedemptionDeadlineTracker(trackedState);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        redeemer = await Redeemer.create(context, customerAddress1, underlyingCustomer1);
+        executor = new Executor(runner, trackedState, deadlineTracker, executorAddress);
+    });
+
+    async function passPaymentDeadline(request: EventArgs<RedemptionRequested>) {
+        chain.mineTo(Number(request.lastUnderlyingBlock) + 1);
+        chain.skipTimeTo(Number(request.lastUnderlyingTimestamp) + 1);
+    }
+
+    it("execute minting for reservation naming the executor", async () => {
+        const crt = await minter.reserveCollateral(agent.agentVault.address, 5, executorAddress, executorFee);
+        await minter.performMintingPayment(crt);
+        await botContext.waitThreadsToFinish();
+        const job = executor.jobs.get(`${ExecutorJobType.MINTING}:${crt.collateralReservationId}`)!;
+        assert.equal(job.status, ExecutorJobStatus.EXECUTED);
+        assert.equal(String(job.executorFeeNatWei), String(executorFee));
+        assert.equal(String(executor.jobProfit(job)), String(executorFee.sub(job.gasCostNatWei)));
+        assert.equal(String(await context.fAsset.balanceOf(minter.address)), String(context.convertLotsToUBA(5)));
+    });
+
+    it("fail minting job when the payment is too small", async () => {
+        const crt = await minter.reserveCollateral(agent.agentVault.address, 5, executorAddress, executorFee);
+        await minter.performPayment(crt.paymentAddress, crt.valueUBA.divn(2), crt.paymentReference);
+        const balanceBefore = toBN(await web3.eth.getBalance(executorAddress));
+        await botContext.waitThreadsToFinish();
+        const job = executor.jobs.get(`${ExecutorJobType.MINTING}:${crt.collateralReservationId}`)!;
+        assert.equal(job.status, ExecutorJobStatus.FAILED);
+        // the recorded gas cost is that of the reverted transaction (nothing if it was rejected by gas estimation), which is the only one sent by the executor
+        const balanceAfter = toBN(await web3.eth.getBalance(executorAddress));
+        assert.equal(String(job.gasCostNatWei), String(balanceBefore.sub(balanceAfter)));
+        assert.equal(String(executor.jobProfit(job)), String(job.gasCostNatWei.neg()));
+    });
+
+    it("claim default for unpaid redemption naming the executor", async () => {
+        await performMinting(minter, agent, 50);
+        const [[request]] = await redeemer.requestRedemption(10, executorAddress, executorFee);
+        await passPaymentDeadline(request);
+        await botContext.waitThreadsToFinish();
+        const job = executor.jobs.get(`${ExecutorJobType.REDEMPTION_DEFAULT}:${request.requestId}`)!;
+        assert.equal(job.status, ExecutorJobStatus.EXECUTED);
+        assert.isTrue(job.gasCostNatWei.gtn(0));
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), "0");
+        assert.equal(String(executor.totalProfit()), String(executor.jobProfit(job)));
+    });
+
+    it("do nothing when the agent confirms the redemption", async () => {
+        await performMinting(minter, agent, 50);
+        const [[request]] = await redeemer.requestRedemption(10, executorAddress, executorFee);
+        const txHash = await agent.performRedemptionPayment(request);
+        await agent.confirmActiveRedemptionPayment(request, txHash);
+        await passPaymentDeadline(request);
+        await botContext.waitThreadsToFinish();
+        const job = executor.jobs.get(`${ExecutorJobType.REDEMPTION_DEFAULT}:${request.requestId}`)!;
+        assert.equal(job.status, ExecutorJobStatus.CLOSED);
+        assert.equal(String(executor.jobProfit(job)), "0");
+    });
+
+    it("ignore requests naming other executors", async () => {
+        await performMinting(minter, agent, 50);
+        const [[request]] = await redeemer.requestRedemption(10, accounts[89], executorFee);
+        await passPaymentDeadline(request);
+        await botContext.waitThreadsToFinish();
+        assert.equal(executor.jobs.size, 0);
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), String(request.valueUBA));
+    });
+});
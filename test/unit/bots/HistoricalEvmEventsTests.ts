@@ -0,0 +1,115 @@
+import { expectRevert } from "@openzeppelin/test-helpers";
+import { network } from "hardhat";
+import { HistoricalEvmEvents } from "../../../lib/utils/events/HistoricalEvmEvents";
+import { contractWithEvents } from "../../../lib/utils/events/truffle";
+import { Future, sleep } from "../../../lib/utils/helpers";
+import { ERC20MockInstance } from "../../../typechain-truffle";
+import { getTestFile } from "../../utils/test-helpers";
+
+const ERC20Mock = artifacts.require("ERC20Mock");
+
+contract(`HistoricalEvmEventsTests.ts; ${getTestFile(__filename)}; Historical EVM events unit tests`, async accounts => {
+    const minter = accounts[5];
+
+    let tokenA: ReturnType<typeof tokenWithEvents>;
+    let tokenB: ReturnType<typeof tokenWithEvents>;
+    let received: string[];
+
+    function tokenWithEvents(token: ERC20MockInstance) {
+        return contractWithEvents(token, 'mintAmount');
+    }
+
+    function subscribe(events: HistoricalEvmEvents) {
+        events.event(tokenA, 'Transfer').subscribe(args => received.push(`A${args.value}`));
+        events.event(tokenB, 'Transfer').subscribe(args => received.push(`B${args.value}`));
+    }
+
+    // mint on both tokens in a single block, B first, so that contract subscription order differs from log order
+    async function mintInOneBlock(amountB: number, amountA: number) {
+        await network.provider.send('evm_setAutomine', [false]);
+        try {
+            const receipts: Promise<unknown>[] = [];
+            for (const [token, amount] of [[tokenB, amountB], [tokenA, amountA]] as const) {
+                const txHash = new Future<string>();
+                receipts.push(token.contract.methods.mintAmount(minter, amount).send({ from: minter, gas: 200_000 })
+                    .once('transactionHash', (hash: string) => txHash.resolve(hash)));
+                await txHash.promise;
+            }
+            await network.provider.send('evm_mine');
+            await Promise.all(receipts);
+        } finally {
+            await network.provider.send('evm_setAutomine', [true]);
+        }
+    }
+
+    beforeEach(async () => {
+        tokenA = tokenWithEvents(await ERC20Mock.new("TokenA", "TA"));
+        tokenB = tokenWithEvents(await ERC20Mock.new("TokenB", "TB"));
+        received = [];
+    });
+
+    it("replay past events in pages, in (blockNumber, logIndex) order across contracts", async () => {
+        const fromBlock = await web3.eth.getBlockNumber() + 1;
+        await tokenA.mintAmount(minter, 1);
+        await tokenB.mintAmount(minter, 2);
+        await mintInOneBlock(3, 4);
+        await tokenA.mintAmount(minter, 5);
+        await tokenB.mintAmount(minter, 6);
+        const lastBlock = await web3.eth.getBlockNumber();
+        // page size 2 splits the blocks so that every page boundary is crossed
+        const events = new HistoricalEvmEvents(null, fromBlock, 2);
+        subscribe(events);
+        await events.replay();
+        assert.deepEqual(received, ["A1", "B2", "B3", "A4", "A5", "B6"]);
+        assert.equal(events.lastProcessedBlock, lastBlock);
+        // nothing is dispatched twice
+        await events.replay();
+        assert.deepEqual(received, ["A1", "B2", "B3", "A4", "A5", "B6"]);
+    });
+
+    it("replay up to the given block", async () => {
+        const fromBlock = await web3.eth.getBlockNumber() + 1;
+        await tokenA.mintAmount(minter, 1);
+        const firstBlock = await web3.eth.getBlockNumber();
+        await tokenB.mintAmount(minter, 2);
+        const events = new HistoricalEvmEvents(null, fromBlock, 10);
+        subscribe(events);
+        await events.replay(firstBlock);
+        assert.deepEqual(received, ["A1"]);
+        await events.replay();
+        assert.deepEqual(received, ["A1", "B2"]);
+    });
+
+    it("switch from replay to live mode without gaps or duplicates", async () => {
+        const fromBlock = await web3.eth.getBlockNumber() + 1;
+        await tokenA.mintAmount(minter, 1);
+        await tokenB.mintAmount(minter, 2);
+        const events = new HistoricalEvmEvents(null, fromBlock, 1, 10);
+        subscribe(events);
+        try {
+            await events.start();
+            assert.isTrue(events.live);
+            assert.deepEqual(received, ["A1", "B2"]);
+            await tokenB.mintAmount(minter, 3);
+            await mintInOneBlock(4, 5);
+            await tokenA.mintAmount(minter, 6);
+            const lastBlock = await web3.eth.getBlockNumber();
+            while (events.lastProcessedBlock < lastBlock) await sleep(10);
+        } finally {
+            events.stop();
+        }
+        assert.isFalse(events.live);
+        assert.deepEqual(received, ["A1", "B2", "B3", "B4", "A5", "A6"]);
+    });
+
+    it("do not allow concurrent replays", async () => {
+        const fromBlock = await web3.eth.getBlockNumber() + 1;
+        await tokenA.mintAmount(minter, 1);
+        const events = new HistoricalEvmEvents(null, fromBlock);
+        subscribe(events);
+        const replay1 = events.replay();
+        await expectRevert(events.replay(), "replay already in progress");
+        await replay1;
+        assert.deepEqual(received, ["A1"]);
+    });
+});
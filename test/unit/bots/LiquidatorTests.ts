@@ -0,0 +1,78 @@
+import { Liquidator } from "../../../lib/actors/Liquidator";
+import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestContext, performMinting, getAgentStatus, dropVaultCollateralRatio } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`LiquidatorTests.ts; ${getTestFile(__filename)}; Liquidator bot unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+    const liquidatorAddress1 = accounts[50];
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let trackedState: TrackedState;
+    let logger: ILogger;
+    let runner: ScopedRunner;
+
+    let agent: Agent;
+    let minter: Minter;
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/liquidator.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, trackedState, runner } = botContext);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+    });
+
+    it("liquidate agent when vault collateral ratio drops", async () => {
+        const liquidator = new Liquidator(runner, trackedState, liquidatorAddress1);
+        await performMinting(minter, agent, 50);
+        await context.fAsset.transfer(liquidatorAddress1, await context.fAsset.balanceOf(minter.address), { from: minter.address });
+        const mintedBefore = toBN((await agent.getAgentInfo()).mintedUBA);
+        await dropVaultCollateralRatio(agent, 12000);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.isTrue(toBN(agentInfo.mintedUBA).lt(mintedBefore));
+        assert.isTrue(toBN(await context.fAsset.balanceOf(liquidatorAddress1)).lt(mintedBefore));
+    });
+
+    it("do not liquidate without f-assets", async () => {
+        const liquidator = new Liquidator(runner, trackedState, liquidatorAddress1);
+        await performMinting(minter, agent, 50);
+        const mintedBefore = toBN((await agent.getAgentInfo()).mintedUBA);
+        await dropVaultCollateralRatio(agent, 12000);
+        await botContext.waitThreadsToFinish();
+        assert.equal(String((await agent.getAgentInfo()).mintedUBA), String(mintedBefore));
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+    });
+
+    it("liquidation reward is estimated at tracked prices", async () => {
+        const liquidator = new Liquidator(runner, trackedState, liquidatorAddress1);
+        await performMinting(minter, agent, 50);
+        const trackedAgent = trackedState.getAgent(agent.agentVault.address)!;
+        const amountUBA = context.convertLotsToUBA(10);
+        // factors that sum to 100% are never profitable
+        const reward = liquidator.liquidationRewardUBA(trackedAgent, amountUBA, toBN(10000), toBN(0));
+        assert.isTrue(reward.lte(amountUBA));
+        const rewardWithPremium = liquidator.liquidationRewardUBA(trackedAgent, amountUBA, toBN(10000), toBN(1000));
+        assert.isTrue(rewardWithPremium.gt(amountUBA));
+    });
+
+});
@@ -0,0 +1,109 @@
+import { AgentBot } from "../../../lib/actors/AgentBot";
+import { MinterBot, MintingOutcomeStatus } from "../../../lib/actors/MinterBot";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { toBNExp, toWei } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { InterceptorEvmEvents } from "../../fuzzing/fasset/InterceptorEvmEvents";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestContext } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { deterministicTimeIncrease, getTestFile } from "../../utils/test-helpers";
+
+contract(`MinterBotTests.ts; ${getTestFile(__filename)}; Minter bot unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const agentOwner2 = accounts[21];
+    const underlyingAgent2 = "Agent2";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let truffleEvents: InterceptorEvmEvents;
+    let trackedState: TrackedState;
+    let logger: ILogger;
+    let runner: ScopedRunner;
+
+    let agent: Agent;
+    let minter: Minter;
+    let minterBot: MinterBot;
+
+    async function createHandshakeAgent() {
+        const agent2 = await Agent.createTest(context, agentOwner2, underlyingAgent2, { handshakeType: 1 });
+        await agent2.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        return agent2;
+    }
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/minter-bot.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, truffleEvents, trackedState, runner } = botContext);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        minterBot = new MinterBot(runner, trackedState, minter.address, minter.underlyingAddress, minter.wallet);
+    });
+
+    it("mint against the available agent", async () => {
+        const outcomePromise = minterBot.mintingFinished.wait();
+        minterBot.mint(5);
+        await botContext.waitThreadsToFinish();
+        const outcome = await outcomePromise;
+        assert.equal(outcome.status, MintingOutcomeStatus.EXECUTED);
+        assert.equal(outcome.agentVault, agent.vaultAddress);
+        assert.equal(String(await context.fAsset.balanceOf(minter.address)), String(outcome.mintedAmountUBA));
+        assert.equal(minterBot.outcomes.length, 1);
+    });
+
+    it("report no agent when the lots exceed free collateral", async () => {
+        const outcomePromise = minterBot.mintingFinished.wait();
+        minterBot.mint(1_000_000_000);
+        await botContext.waitThreadsToFinish();
+        const outcome = await outcomePromise;
+        assert.equal(outcome.status, MintingOutcomeStatus.NO_AGENT);
+    });
+
+    it("mint after handshake approval", async () => {
+        const agent2 = await createHandshakeAgent();
+        const agentBot = new AgentBot(runner, trackedState, agent2.ownerWorkAddress, agent2.wallet, [agent2.vaultAddress]);
+        const outcomePromise = minterBot.mintingFinished.wait();
+        minterBot.mint(5, agent2.vaultAddress);
+        await botContext.waitThreadsToFinish();
+        const outcome = await outcomePromise;
+        assert.equal(outcome.status, MintingOutcomeStatus.EXECUTED);
+        assert.equal(outcome.agentVault, agent2.vaultAddress);
+    });
+
+    it("report handshake rejection", async () => {
+        const agent2 = await createHandshakeAgent();
+        const agentBot = new AgentBot(runner, trackedState, agent2.ownerWorkAddress, agent2.wallet, [agent2.vaultAddress]);
+        agentBot.approveHandshake = () => false;
+        const outcomePromise = minterBot.mintingFinished.wait();
+        minterBot.mint(5, agent2.vaultAddress);
+        await botContext.waitThreadsToFinish();
+        const outcome = await outcomePromise;
+        assert.equal(outcome.status, MintingOutcomeStatus.REJECTED);
+    });
+
+    it("cancel reservation when the agent doesn't respond to handshake", async () => {
+        const agent2 = await createHandshakeAgent();
+        const handshakeRequired = truffleEvents.event(context.assetManager, 'HandshakeRequired').immediate().wait();
+        const outcomePromise = minterBot.mintingFinished.wait();
+        minterBot.mint(5, agent2.vaultAddress);
+        await handshakeRequired;
+        await deterministicTimeIncrease(Number(context.settings.cancelCollateralReservationAfterSeconds) + 1);
+        await botContext.waitThreadsToFinish();
+        const outcome = await outcomePromise;
+        assert.equal(outcome.status, MintingOutcomeStatus.CANCELLED);
+        const agentInfo = await agent2.getAgentInfo();
+        assert.equal(String(agentInfo.reservedUBA), "0");
+    });
+});
@@ -0,0 +1,59 @@
+import { time } from "@openzeppelin/test-helpers";
+import { IBlockChain } from "../../../lib/underlying-chain/interfaces/IBlockChain";
+import { feeRateEstimateForDeadline, paymentFeeOptionsForDeadline } from "../../../lib/underlying-chain/PaymentFees";
+import { MAX_BIPS, toBN } from "../../../lib/utils/helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`PaymentFeesTests.ts; ${getTestFile(__filename)}; Payment fees unit tests`, async accounts => {
+    let chain: MockChain;
+
+    beforeEach(async () => {
+        chain = new MockChain(await time.latest());
+        chain.secondsPerBlock = 10;
+        chain.feeRateModel = () => toBN(1000);
+        chain.feePriorityExpectedBlocks = { low: 10, medium: 3, high: 1 };
+        chain.mine(5);
+    });
+
+    async function deadline(blocks: number, seconds: number) {
+        const height = await chain.getBlockHeight();
+        const block = await chain.getBlockAt(height);
+        return [height + blocks, block!.timestamp + seconds] as const;
+    }
+
+    it("choose the cheapest priority that fits before the deadline", async () => {
+        const [lastBlock, lastTimestamp] = await deadline(20, 200);
+        const estimate = await feeRateEstimateForDeadline(chain, lastBlock, lastTimestamp);
+        assert.equal(estimate.expectedBlocks, 10);
+        assert.equal(String(estimate.feeRate), "1000");
+        const [lastBlock2, lastTimestamp2] = await deadline(5, 50);
+        const estimate2 = await feeRateEstimateForDeadline(chain, lastBlock2, lastTimestamp2);
+        assert.equal(estimate2.expectedBlocks, 3);
+        assert.equal(String(estimate2.feeRate), String(toBN(1000).muln(chain.feePriorityBIPS.medium).divn(MAX_BIPS)));
+    });
+
+    it("use the highest priority if the deadline is too close", async () => {
+        const [lastBlock, lastTimestamp] = await deadline(0, 0);
+        const options = await paymentFeeOptionsForDeadline(chain, lastBlock, lastTimestamp);
+        assert.equal(String(options.feeRate), String(toBN(1000).muln(chain.feePriorityBIPS.high).divn(MAX_BIPS)));
+    });
+
+    it("the deadline passes only when both the last block and the last timestamp pass", async () => {
+        // few blocks left, but enough time for low priority
+        const [lastBlock, lastTimestamp] = await deadline(2, 150);
+        const estimate = await feeRateEstimateForDeadline(chain, lastBlock, lastTimestamp);
+        assert.equal(estimate.expectedBlocks, 10);
+        // little time left, but enough blocks for low priority
+        const [lastBlock2, lastTimestamp2] = await deadline(12, 10);
+        const estimate2 = await feeRateEstimateForDeadline(chain, lastBlock2, lastTimestamp2);
+        assert.equal(estimate2.expectedBlocks, 10);
+    });
+
+    it("leave the fee to the wallet on chains without fee estimation", async () => {
+        const chainWithoutEstimation: IBlockChain = Object.assign(Object.create(chain), { estimateFeeRate: undefined });
+        const [lastBlock, lastTimestamp] = await deadline(20, 200);
+        const options = await paymentFeeOptionsForDeadline(chainWithoutEstimation, lastBlock, lastTimestamp);
+        assert.deepEqual(options, {});
+    });
+});
@@ -0,0 +1,130 @@
+import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
+import { simulatePriceChanges } from "../../../lib/state/PriceSimulation";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { latestBlockTimestamp, toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Liquidator } from "../../integration/utils/Liquidator";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestContext, performMinting, dropVaultCollateralRatio } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+import { assertWeb3Equal } from "../../utils/web3assertions";
+
+contract(`PriceSimulationTests.ts; ${getTestFile(__filename)}; Price simulation unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+    const liquidatorAddress1 = accounts[40];
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let trackedState: TrackedState;
+    let logger: ILogger;
+
+    let agent: Agent;
+    let minter: Minter;
+
+    // change asset price on both ftso and trusted providers by the same relative change as in the simulation
+    async function changeAssetPrice(change: number) {
+        const symbol = context.chainInfo.symbol;
+        const { 0: price } = await context.priceReader.getPrice(symbol);
+        const newPrice = price.mul(toBN(Math.round((1 + change) * 10_000))).divn(10_000);
+        await context.priceStore.setCurrentPrice(symbol, newPrice, 0);
+        await context.priceStore.setCurrentPriceFromTrustedProviders(symbol, newPrice, 0);
+        await context.priceStore.finalizePrices();
+    }
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/price-simulation.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, trackedState } = botContext);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+    });
+
+    it("simulation does not change the tracked state", async () => {
+        await performMinting(minter, agent, 50);
+        const trackedAgent = trackedState.getAgent(agent.vaultAddress)!;
+        const vaultCRBefore = trackedAgent.collateralRatioBIPS(trackedAgent.vaultCollateral);
+        const pricesBefore = trackedState.prices.toString();
+        const [simulation] = simulatePriceChanges(trackedState, { [context.chainInfo.symbol]: 1.0 }, toBN(await latestBlockTimestamp()));
+        assert.equal(simulation.agentVault, agent.vaultAddress);
+        // asset price doubled - collateral ratio halved (up to rounding)
+        assert.isTrue(simulation.vaultCollateralRatioBIPS.sub(vaultCRBefore.divn(2)).abs().lten(1));
+        assert.equal(trackedState.prices.toString(), pricesBefore);
+        assertWeb3Equal(trackedAgent.collateralRatioBIPS(trackedAgent.vaultCollateral), vaultCRBefore);
+        assert.strictEqual(trackedState.getAgent(agent.vaultAddress), trackedAgent);
+    });
+
+    it("state with price changes is a detached copy", async () => {
+        await performMinting(minter, agent, 50);
+        await botContext.waitThreadsToFinish();
+        const copy = trackedState.withPriceChanges({ [context.chainInfo.symbol]: 1.0 });
+        assert.notStrictEqual(copy.eventQueue, trackedState.eventQueue);
+        assert.notStrictEqual(copy.redemptionQueue, trackedState.redemptionQueue);
+        assert.strictEqual(copy.redemptionQueue.parent, copy);
+        assert.deepEqual(copy.redemptionQueue.saveState(), trackedState.redemptionQueue.saveState());
+        const agentCopy = copy.getAgent(agent.vaultAddress)!;
+        assert.notStrictEqual(agentCopy, trackedState.getAgent(agent.vaultAddress));
+        assert.strictEqual(agentCopy.parent, copy);
+        // new events only update the tracked state
+        await performMinting(minter, agent, 10);
+        await botContext.waitThreadsToFinish();
+        assert.isTrue(trackedState.getAgent(agent.vaultAddress)!.mintedUBA.gt(agentCopy.mintedUBA));
+        assert.notDeepEqual(copy.redemptionQueue.saveState(), trackedState.redemptionQueue.saveState());
+    });
+
+    it("rejects price changes of -100% or less", async () => {
+        const timestamp = toBN(await latestBlockTimestamp());
+        for (const change of [-1, -1.5, NaN]) {
+            assert.throws(() => simulatePriceChanges(trackedState, { [context.chainInfo.symbol]: change }, timestamp), "Invalid price change");
+        }
+    });
+
+    it("simulated collateral ratios match ratios after the real price change", async () => {
+        await performMinting(minter, agent, 50);
+        await dropVaultCollateralRatio(agent, 20000);
+        await botContext.waitThreadsToFinish();
+        const [simulation] = simulatePriceChanges(trackedState, { [context.chainInfo.symbol]: 0.2 }, toBN(await latestBlockTimestamp()));
+        assert.equal(simulation.newStatus, AgentStatus.NORMAL);
+        assert.equal(simulation.liquidationSteps.length, 0);
+        await changeAssetPrice(0.2);
+        await botContext.waitThreadsToFinish();
+        const trackedAgent = trackedState.getAgent(agent.vaultAddress)!;
+        assertWeb3Equal(simulation.vaultCollateralRatioBIPS, trackedAgent.collateralRatioBIPS(trackedAgent.vaultCollateral));
+        assertWeb3Equal(simulation.poolCollateralRatioBIPS, trackedAgent.collateralRatioBIPS(trackedAgent.poolWNatCollateral));
+    });
+
+    it("simulated liquidation amount and rewards match the real liquidation", async () => {
+        await performMinting(minter, agent, 50);
+        await dropVaultCollateralRatio(agent, 16000);
+        await botContext.waitThreadsToFinish();
+        // vault CR drops to ~1.23 - below ccbMinCollateralRatio (1.3)
+        const [simulation] = simulatePriceChanges(trackedState, { [context.chainInfo.symbol]: 0.3 }, toBN(await latestBlockTimestamp()));
+        assert.equal(simulation.newStatus, AgentStatus.LIQUIDATION);
+        assert.equal(simulation.currentStep, 0);
+        assert.equal(simulation.liquidationSteps.length, context.settings.liquidationCollateralFactorBIPS.length);
+        const step = simulation.liquidationSteps[0];
+        assert.isTrue(simulation.liquidatableUBA.gtn(0));
+        assertWeb3Equal(simulation.liquidatableUBA, step.liquidatableUBA);
+        // liquidate for real
+        await changeAssetPrice(0.3);
+        const liquidator = await Liquidator.create(context, liquidatorAddress1);
+        await context.fAsset.transfer(liquidatorAddress1, await context.fAsset.balanceOf(minter.address), { from: minter.address });
+        const vaultBalanceBefore = await context.usdc.balanceOf(liquidatorAddress1);
+        const poolBalanceBefore = await context.wNat.balanceOf(liquidatorAddress1);
+        const [liquidatedUBA] = await liquidator.liquidate(agent, await context.fAsset.balanceOf(liquidatorAddress1));
+        assertWeb3Equal(liquidatedUBA, step.liquidatableUBA);
+        assertWeb3Equal((await context.usdc.balanceOf(liquidatorAddress1)).sub(vaultBalanceBefore), step.vaultRewardWei);
+        assertWeb3Equal((await context.wNat.balanceOf(liquidatorAddress1)).sub(poolBalanceBefore), step.poolRewardWei);
+    });
+});
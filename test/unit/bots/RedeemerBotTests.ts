@@ -0,0 +1,90 @@
+import { RedeemerBot } from "../../../lib/actors/RedeemerBot";
+import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
+import { RedemptionDeadlineTracker } from "../../../lib/state/RedemptionDeadlineTracker";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { EventArgs } from "../../../lib/utils/events/common";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { toBNExp, toWei } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { RedemptionRequested } from "../../../typechain-truffle/IIAssetManager";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { BotTestContext, performMinting, getAgentStatus } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`RedeemerBotTests.ts; ${getTestFile(__filename)}; Redeemer bot unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let trackedState: TrackedState;
+    let deadlineTracker: RedemptionDeadlineTracker;
+    let logger: ILogger;
+    let runner: ScopedRunner;
+
+    let agent: Agent;
+    let minter: Minter;
+    let redeemer: Redeemer;
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/redeemer-bot.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, trackedState, runner } = botContext);
+        deadlineTracker = new RedemptionDeadlineTracker(trackedState);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        redeemer = await Redeemer.create(context, customerAddress1, underlyingCustomer1);
+    });
+
+    async function passPaymentDeadline(request: EventArgs<RedemptionRequested>) {
+        chain.mineTo(Number(request.lastUnderlyingBlock) + 1);
+        chain.skipTimeTo(Number(request.lastUnderlyingTimestamp) + 1);
+    }
+
+    it("claim default for unpaid redemption", async () => {
+        const redeemerBot = new RedeemerBot(runner, trackedState, deadlineTracker, redeemer.address);
+        await performMinting(minter, agent, 50);
+        const [[request]] = await redeemer.requestRedemption(10);
+        await passPaymentDeadline(request);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), "0");
+        assert.equal(deadlineTracker.redemptions.size, 0);
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+    });
+
+    it("do not claim default when the agent paid in time", async () => {
+        const redeemerBot = new RedeemerBot(runner, trackedState, deadlineTracker, redeemer.address);
+        await performMinting(minter, agent, 50);
+        const [[request]] = await redeemer.requestRedemption(10);
+        const txHash = await agent.performRedemptionPayment(request);
+        await passPaymentDeadline(request);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), String(request.valueUBA));
+        // the agent can still confirm
+        await agent.confirmActiveRedemptionPayment(request, txHash);
+    });
+
+    it("do not claim default for other redeemers' requests", async () => {
+        const redeemerBot = new RedeemerBot(runner, trackedState, deadlineTracker, accounts[40]);
+        await performMinting(minter, agent, 50);
+        const [[request]] = await redeemer.requestRedemption(10);
+        await passPaymentDeadline(request);
+        await botContext.waitThreadsToFinish();
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(agentInfo.redeemingUBA), String(request.valueUBA));
+    });
+});
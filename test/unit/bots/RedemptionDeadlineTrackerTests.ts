@@ -0,0 +1,107 @@
+import { RedemptionDeadlineStatus, RedemptionDeadlineTracker } from "../../../lib/state/RedemptionDeadlineTracker";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { toBNExp, toWei } from "../../../lib/utils/helpers";
+import { ILogger, MemoryLog, NullLog } from "../../../lib/utils/logging";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { BotTestContext, performMinting } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`RedemptionDeadlineTrackerTests.ts; ${getTestFile(__filename)}; Redemption deadline tracker unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let trackedState: TrackedState;
+    let logger: ILogger;
+
+    let agent: Agent;
+    let minter: Minter;
+    let redeemer: Redeemer;
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/redemption-deadline-tracker.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, trackedState } = botContext);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        redeemer = await Redeemer.create(context, customerAddress1, underlyingCustomer1);
+    });
+
+    it("track redemption through approaching deadline, expiry and default availability", async () => {
+        const tracker = new RedemptionDeadlineTracker(trackedState, 5);
+        const triggered: string[] = [];
+        tracker.approachingDeadline.subscribe(redemption => triggered.push(`approaching ${redemption.requestId}`));
+        tracker.expired.subscribe(redemption => triggered.push(`expired ${redemption.requestId}`));
+        tracker.defaultable.subscribe(redemption => triggered.push(`defaultable ${redemption.requestId}`));
+        await performMinting(minter, agent, 10);
+        const [[request]] = await redeemer.requestRedemption(2);
+        await botContext.processEvents();
+        assert.equal(tracker.redemptionsForAgent(agent.vaultAddress).length, 1);
+        assert.equal(tracker.redemptionsForRedeemer(redeemer.address).length, 1);
+        assert.equal(tracker.getRedemption(request.requestId)?.status, RedemptionDeadlineStatus.OPEN);
+        // approaching
+        chain.mineTo(Number(request.lastUnderlyingBlock) - 5);
+        await botContext.processEvents();
+        assert.equal(tracker.getRedemption(request.requestId)?.status, RedemptionDeadlineStatus.APPROACHING);
+        // only the last block passed - the payment is still allowed
+        chain.mineTo(Number(request.lastUnderlyingBlock) + 1);
+        await botContext.processEvents();
+        assert.equal(tracker.getRedemption(request.requestId)?.status, RedemptionDeadlineStatus.APPROACHING);
+        // both deadlines passed (finalizationBlocks is 0, so it is immediately defaultable)
+        chain.skipTimeTo(Number(request.lastUnderlyingTimestamp) + 1);
+        await botContext.processEvents();
+        assert.equal(tracker.getRedemption(request.requestId)?.status, RedemptionDeadlineStatus.DEFAULTABLE);
+        assert.equal(tracker.redemptionsForAgent(agent.vaultAddress, RedemptionDeadlineStatus.DEFAULTABLE).length, 1);
+        assert.deepEqual(triggered, [`approaching ${request.requestId}`, `expired ${request.requestId}`, `defaultable ${request.requestId}`]);
+    });
+
+    it("retry expiry check at the next block when block lookup fails", async () => {
+        const tracker = new RedemptionDeadlineTracker(trackedState);
+        const memoryLog = new MemoryLog();
+        trackedState.logger = memoryLog;
+        await performMinting(minter, agent, 10);
+        const [[request]] = await redeemer.requestRedemption(2);
+        await botContext.processEvents();
+        chain.skipTimeTo(Number(request.lastUnderlyingTimestamp) + 1);
+        // the first lookup of the block after the deadline fails
+        const getBlockAt = chain.getBlockAt.bind(chain);
+        let failures = 1;
+        chain.getBlockAt = async (blockNumber: number) => {
+            if (failures-- > 0) throw new Error("block lookup failed");
+            return await getBlockAt(blockNumber);
+        };
+        chain.mineTo(Number(request.lastUnderlyingBlock) + 1);
+        await botContext.processEvents();
+        assert.notEqual(tracker.getRedemption(request.requestId)?.status, RedemptionDeadlineStatus.EXPIRED);
+        assert.isTrue(memoryLog.logs.some(line => line.includes("EXPIRY CHECK ERROR")));
+        chain.mine();
+        await botContext.processEvents();
+        assert.equal(tracker.getRedemption(request.requestId)?.status, RedemptionDeadlineStatus.DEFAULTABLE);
+    });
+
+    it("forget redemption after it is paid", async () => {
+        const tracker = new RedemptionDeadlineTracker(trackedState);
+        await performMinting(minter, agent, 10);
+        const [requests] = await redeemer.requestRedemption(2);
+        await botContext.processEvents();
+        assert.equal(tracker.redemptions.size, 1);
+        await agent.performRedemptions(requests);
+        await botContext.processEvents();
+        assert.equal(tracker.redemptions.size, 0);
+        assert.equal(tracker.redemptionsForAgent(agent.vaultAddress).length, 0);
+        assert.equal(tracker.redemptionsForRedeemer(redeemer.address).length, 0);
+    });
+});
@@ -0,0 +1,117 @@
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { UnderlyingChainEvents } from "../../../lib/underlying-chain/UnderlyingChainEvents";
+import { EventExecutionQueue } from "../../../lib/utils/events/ScopedEvents";
+import { toBNExp, toWei } from "../../../lib/utils/helpers";
+import { parseJson, stringifyJson } from "../../../lib/utils/json-bn";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { InterceptorEvmEvents } from "../../fuzzing/fasset/InterceptorEvmEvents";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { BotTestContext, performMinting } from "../../utils/bot-test-helpers";
+import { MockChain } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+import { Web3EventDecoder } from "../../utils/Web3EventDecoder";
+
+contract(`TrackedRedemptionQueueTests.ts; ${getTestFile(__filename)}; Tracked redemption queue unit tests`, async accounts => {
+    const governance = accounts[1];
+
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const agentOwner2 = accounts[21];
+    const underlyingAgent2 = "Agent2";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let botContext: BotTestContext;
+    let context: AssetContext;
+    let chain: MockChain;
+    let eventDecoder: Web3EventDecoder;
+    let truffleEvents: InterceptorEvmEvents;
+    let eventQueue: EventExecutionQueue;
+    let chainEvents: UnderlyingChainEvents;
+    let trackedState: TrackedState;
+    let logger: ILogger;
+
+    let agent: Agent;
+    let agent2: Agent;
+    let minter: Minter;
+    let redeemer: Redeemer;
+
+    function formatTickets(tickets: { redemptionTicketId: BN | string, agentVault: string, ticketValueUBA: BN | string }[]) {
+        return tickets.map(ticket => `${ticket.redemptionTicketId}:${ticket.agentVault}:${ticket.ticketValueUBA}`);
+    }
+
+    async function assertQueueMatchesChain() {
+        const { 0: queue } = await context.assetManager.redemptionQueue(0, 100);
+        assert.deepEqual(formatTickets(trackedState.redemptionQueue.queue()), formatTickets(queue));
+        for (const agentVault of [agent.vaultAddress, agent2.vaultAddress]) {
+            const { 0: agentQueue } = await context.assetManager.agentRedemptionQueue(agentVault, 0, 100);
+            assert.deepEqual(formatTickets(trackedState.redemptionQueue.agentQueue(agentVault)), formatTickets(agentQueue));
+        }
+    }
+
+    beforeEach(async () => {
+        // logger = new LogFile("test_logs/tracked-redemption-queue.log")
+        logger = new NullLog();
+        botContext = await BotTestContext.createTest(governance, accounts[0], logger);
+        ({ context, chain, eventDecoder, truffleEvents, eventQueue, chainEvents, trackedState } = botContext);
+        // actors
+        agent = await Agent.createTest(context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        agent2 = await Agent.createTest(context, agentOwner2, underlyingAgent2);
+        await agent2.depositCollateralsAndMakeAvailable(toWei(3e8),toWei(3e8));
+        minter = await Minter.createTest(context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        redeemer = await Redeemer.create(context, customerAddress1, underlyingCustomer1);
+    });
+
+    it("mirror the redemption queue through mintings and redemptions", async () => {
+        await performMinting(minter, agent, 3);
+        await performMinting(minter, agent2, 2);
+        await performMinting(minter, agent, 4);
+        await botContext.processEvents();
+        assert.equal(trackedState.redemptionQueue.queue().length, 3);
+        await assertQueueMatchesChain();
+        // the first ticket is fully redeemed and the third one partially
+        await redeemer.requestRedemption(6);
+        await botContext.processEvents();
+        assert.equal(trackedState.redemptionQueue.queue().length, 1);
+        await assertQueueMatchesChain();
+        // state with queue survives save and restore
+        const restoredState = new TrackedState(context, truffleEvents, chainEvents, eventDecoder, eventQueue);
+        await restoredState.initialize(parseJson(stringifyJson(trackedState.saveState())));
+        assert.deepEqual(formatTickets(restoredState.redemptionQueue.queue()), formatTickets(trackedState.redemptionQueue.queue()));
+    });
+
+    it("predicted redemption matches the created redemption requests", async () => {
+        await performMinting(minter, agent, 3);
+        await performMinting(minter, agent2, 2);
+        await performMinting(minter, agent, 4);
+        await botContext.processEvents();
+        const prediction = trackedState.redemptionQueue.predictRedemption(6);
+        assert.deepEqual(prediction.requests.map(pr => [pr.agentVault, Number(pr.lots)]), [[agent.vaultAddress, 4], [agent2.vaultAddress, 2]]);
+        const tickets = trackedState.redemptionQueue.queue();
+        assert.deepEqual(prediction.requests[0].redemptionTicketIds.map(String), [tickets[0], tickets[2]].map(ticket => String(ticket.redemptionTicketId)));
+        const [requests, remainingLots] = await redeemer.requestRedemption(6);
+        assert.deepEqual(requests.map(request => [request.agentVault, String(request.valueUBA)]),
+            prediction.requests.map(pr => [pr.agentVault, String(pr.valueUBA)]));
+        assert.equal(Number(remainingLots), Number(prediction.remainingLots));
+    });
+
+    it("predict incomplete redemption when the queue is too short", async () => {
+        await performMinting(minter, agent, 3);
+        await botContext.processEvents();
+        const prediction = trackedState.redemptionQueue.predictRedemption(5);
+        assert.equal(Number(prediction.redeemedLots), 3);
+        assert.equal(Number(prediction.remainingLots), 2);
+        const [requests, remainingLots] = await redeemer.requestRedemption(5);
+        assert.equal(requests.length, 1);
+        assert.equal(String(requests[0].valueUBA), String(prediction.requests[0].valueUBA));
+        assert.equal(Number(remainingLots), Number(prediction.remainingLots));
+        await botContext.processEvents();
+        assert.equal(trackedState.redemptionQueue.queue().length, 0);
+        assert.equal(trackedState.redemptionQueue.agentQueue(agent.vaultAddress).length, 0);
+        assert.equal(Number(trackedState.redemptionQueue.predictRedemption(1).redeemedLots), 0);
+    });
+});
@@ -0,0 +1,87 @@
+import { time } from "@openzeppelin/test-helpers";
+import { UnderlyingChainEvents } from "../../../lib/underlying-chain/UnderlyingChainEvents";
+import { sleep } from "../../../lib/utils/helpers";
+import { MockChain, MockChainWallet } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`UnderlyingChainEventsTests.ts; ${getTestFile(__filename)}; Underlying chain events unit tests`, async accounts => {
+    let chain: MockChain;
+    let wallet: MockChainWallet;
+    let chainEvents: UnderlyingChainEvents;
+
+    beforeEach(async () => {
+        chain = new MockChain(await time.latest());
+        chain.finalizationBlocks = 2;
+        chain.mint("Source", 1000);
+        wallet = new MockChainWallet(chain);
+        chainEvents = new UnderlyingChainEvents(chain, chain, null);
+    });
+
+    // keep mining blocks until the promise settles
+    async function mineUntilSettled<T>(promise: Promise<T>) {
+        let settled = false;
+        promise.then(() => { settled = true; }, () => { settled = true; });
+        while (!settled) {
+            await sleep(10);
+            chain.mine();
+        }
+        return await promise;
+    }
+
+    it("report reverted transactions and blocks, newest block first", async () => {
+        const reverted: string[] = [];
+        chainEvents.transactionRevertedEvent().subscribe(transaction => reverted.push(`tx ${transaction.hash}`));
+        chainEvents.blockRevertedEvent().subscribe(block => reverted.push(`block ${block.number}`));
+        const txHash1 = await wallet.addTransaction("Source", "Target", 100, null);
+        const txHash2 = await wallet.addTransaction("Source", "Target", 200, null);
+        const height = chain.blockHeight();
+        chain.fork(2);
+        assert.deepEqual(reverted, [`tx ${txHash2}`, `block ${height}`, `tx ${txHash1}`, `block ${height - 1}`]);
+        // reverted transactions vanish and their balance changes are undone
+        assert.equal(chain.blockHeight(), height + 1);
+        assert.isNull(await chain.getTransaction(txHash1));
+        assert.isNull(await chain.getTransaction(txHash2));
+        assert.equal(String(await chain.getBalance("Source")), "1000");
+        assert.equal(String(await chain.getBalance("Target")), "0");
+    });
+
+    it("include reverted transactions in the first block of the new fork", async () => {
+        const txHash = await wallet.addTransaction("Source", "Target", 100, null);
+        const height = chain.blockHeight();
+        const oldBlock = await chain.getTransactionBlock(txHash);
+        chain.fork(1, 2, true);
+        const newBlock = await chain.getTransactionBlock(txHash);
+        assert.equal(newBlock?.number, height);
+        assert.notEqual(newBlock?.hash, oldBlock?.hash);
+        assert.equal(chain.blockHeight(), height + 1);
+        assert.equal(String(await chain.getBalance("Target")), "100");
+    });
+
+    it("wait for finalization of a transaction included again after reorg", async () => {
+        const txHash = await wallet.addTransaction("Source", "Target", 100, null);
+        const finalization = chainEvents.waitForUnderlyingTransactionFinalization(undefined, txHash);
+        chain.fork(1, 1, true);
+        const transaction = await mineUntilSettled(finalization);
+        assert.equal(transaction?.hash, txHash);
+    });
+
+    it("return null when the transaction vanishes before finalization", async () => {
+        const txHash = await wallet.addTransaction("Source", "Target", 100, null);
+        const finalization = chainEvents.waitForUnderlyingTransactionFinalization(undefined, txHash);
+        chain.fork(1);
+        const transaction = await mineUntilSettled(finalization);
+        assert.isNull(transaction);
+    });
+
+    it("notice revert between reading the transaction and its block", async () => {
+        const txHash = await wallet.addTransaction("Source", "Target", 100, null);
+        const getTransactionBlock = chain.getTransactionBlock.bind(chain);
+        chain.getTransactionBlock = async (hash: string) => {
+            const block = await getTransactionBlock(hash);
+            chain.fork(1);      // the block is already read, but the transaction vanishes
+            return block;
+        };
+        const transaction = await mineUntilSettled(chainEvents.waitForUnderlyingTransactionFinalization(undefined, txHash));
+        assert.isNull(transaction);
+    });
+});
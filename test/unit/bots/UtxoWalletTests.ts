@@ -0,0 +1,90 @@
+import { expectRevert, time } from "@openzeppelin/test-helpers";
+import { TX_FAILED, TX_SUCCESS } from "../../../lib/underlying-chain/interfaces/IBlockChain";
+import { UTXO } from "../../../lib/underlying-chain/interfaces/IBlockChainWallet";
+import { selectUtxos, UtxoFeeModel, UtxoSelectionError } from "../../../lib/underlying-chain/UtxoWallet";
+import { toBN } from "../../../lib/utils/helpers";
+import { MockChain, MockChainUtxoWallet } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`UtxoWalletTests.ts; ${getTestFile(__filename)}; UTXO wallet unit tests`, async accounts => {
+    const feeModel: UtxoFeeModel = { baseFee: toBN(10), feePerInput: toBN(5), feePerOutput: toBN(10) };
+
+    function utxos(...amounts: number[]): UTXO[] {
+        return amounts.map((amount, i) => ({ transactionHash: `0x${i}`, outputIndex: 0, address: "Source", amount: toBN(amount) }));
+    }
+
+    describe("coin selection", () => {
+        it("select the largest outputs first and return the change", () => {
+            const selection = selectUtxos(utxos(30, 100, 60), toBN(100), feeModel, 1);
+            assert.deepEqual(selection.inputs.map(utxo => Number(utxo.amount)), [100, 60]);
+            assert.equal(String(selection.fee), "40");      // 2 inputs, 1 output + change
+            assert.equal(String(selection.change), "20");
+        });
+
+        it("add the leftover too small for a change output to the fee", () => {
+            const selection = selectUtxos(utxos(30, 100, 60), toBN(125), feeModel, 1);
+            assert.deepEqual(selection.inputs.map(utxo => Number(utxo.amount)), [100, 60]);
+            assert.equal(String(selection.fee), "35");      // fee without change is 30, change output would cost 10
+            assert.equal(String(selection.change), "0");
+        });
+
+        it("fail when the outputs don't cover amount and fee", () => {
+            assert.throws(() => selectUtxos(utxos(30, 100, 60), toBN(170), feeModel, 1), UtxoSelectionError, "insufficient funds");
+        });
+
+        it("fail when the fee exceeds maxFee", () => {
+            assert.throws(() => selectUtxos(utxos(30, 100, 60), toBN(100), feeModel, 1, toBN(35)), UtxoSelectionError, "exceeds maxFee");
+            // fee just within the limit is accepted
+            const selection = selectUtxos(utxos(30, 100, 60), toBN(100), feeModel, 1, toBN(40));
+            assert.equal(String(selection.fee), "40");
+        });
+    });
+
+    describe("mock chain wallet", () => {
+        let chain: MockChain;
+
+        beforeEach(async () => {
+            chain = new MockChain(await time.latest());
+        });
+
+        it("return the change to the change address from options, wallet or source", async () => {
+            const wallet = new MockChainUtxoWallet(chain);
+            wallet.fund("Source", 1000);
+            await wallet.addTransaction("Source", "Target", 100, null);
+            assert.equal(String(await chain.getBalance("Source")), "900");
+            await wallet.addTransaction("Source", "Target", 100, null, { changeAddress: "Change1" });
+            assert.equal(String(await chain.getBalance("Change1")), "800");
+            wallet.changeAddress = "Change2";
+            wallet.fund("Source", 1000);
+            await wallet.addTransaction("Source", "Target", 100, null);
+            assert.equal(String(await chain.getBalance("Change2")), "900");
+            assert.equal(String(await chain.getBalance("Target")), "300");
+        });
+
+        it("fail transactions with fee below the chain's required fee", async () => {
+            chain.requiredFee = toBN(10);
+            const wallet = new MockChainUtxoWallet(chain);
+            const fundingHash = wallet.fund("Source", 1000);
+            const failedHash = await wallet.addTransaction("Source", "Target", 100, null, { feeRate: 5 });
+            assert.equal((await chain.getTransaction(failedHash))?.status, TX_FAILED);
+            // the funding output is still unspent and can be used with sufficient fee
+            const [output] = await wallet.getUnspentOutputs("Source");
+            assert.equal(output.transactionHash, fundingHash);
+            const txHash = await wallet.addTransaction("Source", "Target", 100, null);
+            assert.equal((await chain.getTransaction(txHash))?.status, TX_SUCCESS);
+            assert.equal(String(await chain.getBalance("Target")), "100");
+        });
+
+        it("check the multi transaction fee against maxFee", async () => {
+            const wallet = new MockChainUtxoWallet(chain);
+            wallet.fund("Source", 1000);
+            await expectRevert(wallet.addMultiTransaction({ Source: 150 }, { Target: 100 }, null, { maxFee: 40 }), "exceeds maxFee");
+            await expectRevert(wallet.addMultiTransaction({ Source: 150 }, { Target: 100 }, null, { feeRate: 1 }), "only maxFee option is supported");
+            await expectRevert(wallet.addMultiTransaction({ Source: 100 }, { Target: 150 }, null), "receive amounts exceed spend amounts");
+            const txHash = await wallet.addMultiTransaction({ Source: 150 }, { Target: 100 }, null, { maxFee: 50 });
+            assert.equal((await chain.getTransaction(txHash))?.status, TX_SUCCESS);
+            assert.equal(String(await chain.getBalance("Target")), "100");
+            assert.equal(String(await chain.getBalance("Source")), "850");
+        });
+    });
+});
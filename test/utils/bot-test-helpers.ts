@@ -0,0 +1,110 @@
+import { AgentStatus } from "../../lib/fasset/AssetManagerTypes";
+import { TrackedState } from "../../lib/state/TrackedState";
+import { UnderlyingChainEvents } from "../../lib/underlying-chain/UnderlyingChainEvents";
+import { EventExecutionQueue } from "../../lib/utils/events/ScopedEvents";
+import { ScopedRunner } from "../../lib/utils/events/ScopedRunner";
+import { sleep } from "../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../lib/utils/logging";
+import { InterceptorEvmEvents } from "../fuzzing/fasset/InterceptorEvmEvents";
+import { TruffleTransactionInterceptor } from "../fuzzing/fasset/TransactionInterceptor";
+import { Agent } from "../integration/utils/Agent";
+import { AssetContext } from "../integration/utils/AssetContext";
+import { CommonContext } from "../integration/utils/CommonContext";
+import { Minter } from "../integration/utils/Minter";
+import { testChainInfo, TestChainInfo } from "../integration/utils/TestChainInfo";
+import { MockChain } from "./fasset/MockChain";
+import { MockFlareDataConnectorClient } from "./fasset/MockFlareDataConnectorClient";
+import { Web3EventDecoder } from "./Web3EventDecoder";
+
+/**
+ * Asset context on mock chain with intercepted EVM events, uniform event queue and initialized tracked state, as used by bot unit tests.
+ */
+export class BotTestContext {
+    constructor(
+        public commonContext: CommonContext,
+        public context: AssetContext,
+        public chainInfo: TestChainInfo,
+        public chain: MockChain,
+        public eventDecoder: Web3EventDecoder,
+        public interceptor: TruffleTransactionInterceptor,
+        public truffleEvents: InterceptorEvmEvents,
+        public eventQueue: EventExecutionQueue,
+        public chainEvents: UnderlyingChainEvents,
+        public trackedState: TrackedState,
+        public runner: ScopedRunner,
+        public logger: ILogger,
+    ) {
+    }
+
+    /**
+     * Mine underlying blocks and run event handlers until all runner threads finish.
+     */
+    async waitThreadsToFinish() {
+        while (this.runner.runningThreads > 0 || this.eventQueue.length > 0) {
+            this.chain.mine();
+            await sleep(20);
+            this.eventQueue.runAll();
+            await this.interceptor.allHandled();
+        }
+    }
+
+    /**
+     * Run handlers of the intercepted events, without mining.
+     */
+    async processEvents() {
+        await this.interceptor.allHandled();
+        this.eventQueue.runAll();
+        await sleep(20);    // let async block handlers finish
+        this.eventQueue.runAll();
+    }
+
+    static async createTest(governance: string, interceptorAddress: string, logger: ILogger = new NullLog()) {
+        // create context
+        const commonContext = await CommonContext.createTest(governance);
+        const chainInfo = testChainInfo.eth;
+        const context = await AssetContext.createTest(commonContext, chainInfo);
+        const chain = context.chain as MockChain;
+        // create interceptor
+        const eventDecoder = new Web3EventDecoder({});
+        const interceptor = new TruffleTransactionInterceptor(eventDecoder, interceptorAddress);
+        interceptor.captureEvents({
+            assetManager: context.assetManager,
+            assetManagerController: context.assetManagerController,
+            fAsset: context.fAsset,
+            wnat: context.wNat,
+            priceStore: context.priceStore,
+        });
+        // uniform event handlers
+        const eventQueue = new EventExecutionQueue();
+        context.chainEvents.executionQueue = eventQueue;
+        const truffleEvents = new InterceptorEvmEvents(interceptor, eventQueue);
+        const chainEvents = context.chainEvents;
+        // state checker
+        const trackedState = new TrackedState(context, truffleEvents, chainEvents, eventDecoder, eventQueue);
+        await trackedState.initialize();
+        // runner
+        const runner = new ScopedRunner();
+        // logging
+        interceptor.logger = logger;
+        chain.logger = logger;
+        (context.flareDataConnectorClient as MockFlareDataConnectorClient).logger = logger;
+        trackedState.logger = logger;
+        return new BotTestContext(commonContext, context, chainInfo, chain, eventDecoder, interceptor, truffleEvents, eventQueue, chainEvents, trackedState, runner, logger);
+    }
+}
+
+export async function performMinting(minter: Minter, agent: Agent, lots: number) {
+    const crt = await minter.reserveCollateral(agent.agentVault.address, lots);
+    const txHash = await minter.performMintingPayment(crt);
+    await minter.executeMinting(crt, txHash);
+}
+
+export async function getAgentStatus(agent: Agent) {
+    const agentInfo = await agent.getAgentInfo();
+    return Number(agentInfo.status) as AgentStatus;
+}
+
+export async function dropVaultCollateralRatio(agent: Agent, ratioBIPS: number) {
+    await agent.setVaultCollateralRatioByChangingAssetPrice(ratioBIPS);
+    await agent.context.priceStore.finalizePrices();
+}
@@ -1,6 +1,7 @@
 import Web3 from "web3";
 import { AddressValidity, BalanceDecreasingTransaction, ConfirmedBlockHeightExists, Payment, ReferencedPaymentNonexistence } from "@flarenetwork/state-connector-protocol";
-import { TX_FAILED, TxInputOutput } from "../../../lib/underlying-chain/interfaces/IBlockChain";
+import { paymentStatusRule } from "../../../lib/fasset/RedemptionPaymentValidation";
+import { TxInputOutput } from "../../../lib/underlying-chain/interfaces/IBlockChain";
 import { BN_ZERO, ZERO_BYTES32 } from "../../../lib/utils/helpers";
 import { MockChain, MockChainTransaction } from "./MockChain";
 import { AttestationHelper } from "../../../lib/underlying-chain/AttestationHelper";
@@ -118,7 +119,7 @@ export class MockAttestationProver {
             for (const transaction of block.transactions) {
                 const found = transaction.reference === paymentReference
                     && totalReceivedValue(transaction, destinationAddressHash).gte(amount)
-                    && transaction.status !== TX_FAILED
+                    && paymentStatusRule(transaction.status).countsAsPayment
                     && (!checkSourceAddresses || sourceAddressesRoot === AttestationHelper.merkleRootOfAddresses(transaction.inputs.map(input => input[0])));
                 if (found) {
                     return [true, startBlock, bn];
@@ -1,7 +1,8 @@
-import { IBlock, IBlockChain, IBlockId, ITransaction, TX_FAILED, TX_SUCCESS, TxInputOutput } from "../../../lib/underlying-chain/interfaces/IBlockChain";
+import { FeePriority, IBlock, IBlockChain, IBlockId, IFeeRateEstimate, ITransaction, TX_FAILED, TX_SUCCESS, TxInputOutput } from "../../../lib/underlying-chain/interfaces/IBlockChain";
 import { BlockHandler, IBlockChainEvents, TransactionHandler } from "../../../lib/underlying-chain/interfaces/IBlockChainEvents";
-import { IBlockChainWallet, TransactionOptions, TransactionOptionsWithFee } from "../../../lib/underlying-chain/interfaces/IBlockChainWallet";
-import { BN_ZERO, BNish, Dict, fail, formatBN, systemTimestamp, toBN } from "../../../lib/utils/helpers";
+import { IBlockChainWallet, TransactionOptions, TransactionOptionsWithFee, UTXO } from "../../../lib/underlying-chain/interfaces/IBlockChainWallet";
+import { UtxoSizeModel, UtxoWalletBase } from "../../../lib/underlying-chain/UtxoWallet";
+import { BN_ZERO, BNish, Dict, fail, formatBN, MAX_BIPS, sumBN, systemTimestamp, toBN } from "../../../lib/utils/helpers";
 import { stringifyJson } from "../../../lib/utils/json-bn";
 import { ILogger } from "../../../lib/utils/logging";
 
@@ -26,8 +27,9 @@ export interface MockChainBlock {
 /**
  * A simple blockchain mock, to simulate operations needed in fasset system.
  * Supports multi source/dest transactions, payment references and failed transaction records.
- * Everything is linear here - no support for complex concepts like finalization or forking
+ * Everything is linear here - no support for complex concepts like finalization
  * (these are handled in attestation system and are not really visible in fasset system).
+ * Forks can be simulated by `fork()`, which replaces the last blocks and notifies reverted block/transaction handlers.
  */
 export class MockChain implements IBlockChain, IBlockChainEvents {
     static deepCopyWithObjectCreate = true;
@@ -47,6 +49,9 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
     nextBlockTransactions: MockChainTransaction[] = [];
     blockHandlers: { [subscriptionId: string]: BlockHandler } = {};
     transactionHandlers: { [subscriptionId: string]: [filter: Dict<string> | null, handler: TransactionHandler] } = {};
+    blockRevertedHandlers: { [subscriptionId: string]: BlockHandler } = {};
+    transactionRevertedHandlers: { [subscriptionId: string]: [filter: Dict<string> | null, handler: TransactionHandler] } = {};
+    forkCount: number = 0;
 
     // some settings that can be tuned for tests
     finalizationBlocks: number = 0;
@@ -54,6 +59,11 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
     requiredFee: BN = BN_ZERO;   // this much gas/fee will be used at each transaction
     estimatedGasPrice: BN = BN_ZERO;
     automine: boolean = true;
+    // fee model: mock transactions have unit size, so the fee rate is the fee per transaction
+    paymentTransactionSize: number = 1;
+    feeRateModel?: (blockNumber: number, timestamp: number) => BN;     // time-varying fee rate; if not set, `requiredFee` is used
+    feePriorityBIPS: Record<FeePriority, number> = { low: MAX_BIPS, medium: 12_000, high: 15_000 };
+    feePriorityExpectedBlocks: Record<FeePriority, number> = { low: 10, medium: 3, high: 1 };
     logger?: ILogger;
 
     async getTransaction(txHash: string): Promise<ITransaction | null> {
@@ -85,6 +95,11 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         return this.blocks.length - 1;
     }
 
+    async estimateFeeRate(priority: FeePriority): Promise<IFeeRateEstimate> {
+        const feeRate = this.currentFeeRate().muln(this.feePriorityBIPS[priority]).divn(MAX_BIPS);
+        return { feeRate, expectedBlocks: this.feePriorityExpectedBlocks[priority] };
+    }
+
     static lastSubscriptionId = 0;
 
     addBlockHandler(handler: (blockId: IBlockId) => void): string {
@@ -99,9 +114,23 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         return subscriptionId;
     }
 
+    addBlockRevertedHandler(handler: (blockId: IBlockId) => void): string {
+        const subscriptionId = String(++MockChain.lastSubscriptionId);
+        this.blockRevertedHandlers[subscriptionId] = handler;
+        return subscriptionId;
+    }
+
+    addTransactionRevertedHandler(filter: Dict<string> | null, handler: (transaction: ITransaction) => void): string {
+        const subscriptionId = String(++MockChain.lastSubscriptionId);
+        this.transactionRevertedHandlers[subscriptionId] = [filter, handler];
+        return subscriptionId;
+    }
+
     removeHandler(subscriptionId: string): void {
         delete this.blockHandlers[subscriptionId];
         delete this.transactionHandlers[subscriptionId];
+        delete this.blockRevertedHandlers[subscriptionId];
+        delete this.transactionRevertedHandlers[subscriptionId];
     }
 
     ////////////////////////////////////////////////////////////////////////////////
@@ -125,6 +154,25 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         this.mine(lastBlock - this.blockHeight());
     }
 
+    /**
+     * Simulate a chain reorganization: the last `depth` blocks are replaced by `newBlocks` blocks of a competing fork.
+     * Transactions from the reverted blocks vanish, unless `reincludeTransactions` is set - then they are mined again in the first new block.
+     * Reverted transaction and block handlers are called (newest block first) before the new blocks are mined.
+     */
+    fork(depth: number, newBlocks: number = depth + 1, reincludeTransactions: boolean = false) {
+        if (depth < 0 || depth >= this.blocks.length) throw new Error("Invalid fork depth");
+        const revertedBlocks = this.blocks.splice(this.blocks.length - depth, depth);
+        for (const block of [...revertedBlocks].reverse()) {
+            this.revertBlock(block);
+        }
+        ++this.forkCount;   // makes new block hashes differ from the reverted ones
+        if (reincludeTransactions) {
+            const revertedTransactions = revertedBlocks.flatMap(block => block.transactions);
+            this.nextBlockTransactions = [...revertedTransactions, ...this.nextBlockTransactions];
+        }
+        this.mine(newBlocks);
+    }
+
     createTransactionHash(inputs: TxInputOutput[], outputs: TxInputOutput[], reference: string | null): string {
         // build data structure to hash
         const data = {
@@ -173,6 +221,16 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         return Math.max(systemTimestamp() + this.timestampSkew, this.lastBlockTimestamp() + this.secondsPerBlock);
     }
 
+    // The minimal fee rate for transactions in the next block.
+    currentFeeRate() {
+        return this.feeRateModel?.(this.blocks.length, this.nextBlockTimestamp()) ?? this.requiredFee;
+    }
+
+    // The minimal fee for a transaction in the next block; transactions with lower fee fail.
+    currentRequiredFee() {
+        return this.currentFeeRate().muln(this.paymentTransactionSize);
+    }
+
     currentTimestamp() {
         return Math.max(systemTimestamp() + this.timestampSkew, this.lastBlockTimestamp());
     }
@@ -241,7 +299,8 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         // create new block
         const number = this.blocks.length;
         const timestamp = this.newBlockTimestamp();
-        const hash = web3.utils.keccak256(JSON.stringify({ number, timestamp, transactions: transactions.map(tx => tx.hash) }));
+        const fork = this.forkCount > 0 ? this.forkCount : undefined;    // undefined is skipped by JSON.stringify
+        const hash = web3.utils.keccak256(JSON.stringify({ number, timestamp, transactions: transactions.map(tx => tx.hash), fork }));
         this.blocks.push({ hash, number, timestamp, transactions });
         this.blockIndex[hash] = number;
         // log
@@ -270,6 +329,34 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         }
     }
 
+    private revertBlock(block: MockChainBlock) {
+        // undo balance changes
+        for (const transaction of [...block.transactions].reverse()) {
+            if (transaction.status === TX_SUCCESS) {
+                for (const [src, value] of transaction.inputs) {
+                    this.balances[src] = (this.balances[src] ?? BN_ZERO).add(value);
+                }
+                for (const [dest, value] of transaction.outputs) {
+                    this.balances[dest] = (this.balances[dest] ?? BN_ZERO).sub(value);
+                }
+            }
+            delete this.transactionIndex[transaction.hash];
+        }
+        delete this.blockIndex[block.hash];
+        this.logger?.log(`REVERTED UNDERLYING BLOCK ${block.number}  hash=${block.hash}`);
+        // execute handlers
+        for (const [filter, handler] of Object.values(this.transactionRevertedHandlers)) {
+            for (const transaction of block.transactions) {
+                if (filter == null || this.filterMatches(filter, transaction)) {
+                    handler(transaction);
+                }
+            }
+        }
+        for (const handler of Object.values(this.blockRevertedHandlers)) {
+            handler({ hash: block.hash, number: block.number });
+        }
+    }
+
     private filterMatches(filter: Dict<string>, transaction: MockChainTransaction) {
         for (const [key, value] of Object.entries(filter)) {
             switch (key) {
@@ -332,7 +419,7 @@ export class MockChainWallet implements IBlockChainWallet {
         options ??= {};
         value = toBN(value);
         const maxFee = this.calculateMaxFee(options);
-        if (maxFee.lt(this.chain.requiredFee)) {
+        if (maxFee.lt(this.chain.currentRequiredFee())) {
             // mark transaction failed if too little gas/fee is added (like EVM blockchains)
             options = { ...options, status: TX_FAILED };
         }
@@ -349,7 +436,10 @@ export class MockChainWallet implements IBlockChainWallet {
         const totalReceived = outputs.reduce((a, [_, x]) => a.add(x), BN_ZERO);
         const status = options?.status ?? TX_SUCCESS;
         assert.isTrue(totalSpent.gte(totalReceived), "mockTransaction: received more than spent");
-        assert.isTrue(totalSpent.gte(totalReceived.add(this.chain.requiredFee)), "mockTransaction: not enough fee");
+        if (status === TX_SUCCESS) {
+            // failed transactions (e.g. by too low fee in `createTransaction`) only spend the fee they offered
+            assert.isTrue(totalSpent.gte(totalReceived.add(this.chain.currentRequiredFee())), "mockTransaction: not enough fee");
+        }
         const hash = this.chain.createTransactionHash(inputs, outputs, reference);
         // hash is set set when transaction is added to a block
         return { hash, inputs, outputs, reference, status };
@@ -358,10 +448,78 @@ export class MockChainWallet implements IBlockChainWallet {
     private calculateMaxFee(options: TransactionOptionsWithFee) {
         if (options.maxFee != null) {
             return toBN(options.maxFee);
+        } else if (options.feeRate != null) {
+            return toBN(options.feeRate).muln(this.chain.paymentTransactionSize);
         } else if (options.gasLimit != null) {
             return toBN(options.gasLimit).mul(toBN(options.gasPrice ?? this.chain.estimatedGasPrice));
         } else {
-            return this.chain.requiredFee;
+            return this.chain.currentRequiredFee();
+        }
+    }
+}
+
+/**
+ * UTXO wallet on top of MockChain. Unspent outputs are collected from the mined transactions.
+ * MockChain transactions don't reference the outputs they spend, so the wallet remembers the outputs spent by its own transactions;
+ * therefore the addresses managed by this wallet must only be spent from through it.
+ */
+export class MockChainUtxoWallet extends UtxoWalletBase {
+    static deepCopyWithObjectCreate = true;
+
+    constructor(
+        public chain: MockChain,
+        sizeModel?: UtxoSizeModel,
+        changeAddress?: string,
+    ) {
+        // by default every mock transaction has the size of a simple payment, regardless of the number of inputs and outputs
+        super(chain, sizeModel ?? { baseSize: chain.paymentTransactionSize, sizePerInput: 0, sizePerOutput: 0 }, changeAddress);
+    }
+
+    static lastFundingId = 0;
+
+    spentOutputs = new Map<string, string>();    // 'transactionHash:outputIndex' => spending transaction hash
+
+    async getUnspentOutputs(address: string): Promise<UTXO[]> {
+        const result: UTXO[] = [];
+        for (const block of this.chain.blocks) {
+            for (const transaction of block.transactions) {
+                if (transaction.status !== TX_SUCCESS) continue;
+                for (const [outputIndex, [outputAddress, amount]] of transaction.outputs.entries()) {
+                    if (outputAddress !== address || amount.isZero() || this.isSpent(transaction.hash, outputIndex)) continue;
+                    result.push({ transactionHash: transaction.hash, outputIndex, address, amount });
+                }
+            }
+        }
+        return result;
+    }
+
+    // Create a new output for the address (by a transaction without inputs, since mock chain `mint` creates no outputs).
+    fund(address: string, amount: BNish) {
+        const outputs: TxInputOutput[] = [[address, toBN(amount)]];
+        const hash = web3.utils.keccak256(JSON.stringify({ funding: ++MockChainUtxoWallet.lastFundingId, address, amount: String(amount) }));
+        this.chain.addTransaction({ hash, inputs: [], outputs, reference: null, status: TX_SUCCESS });
+        return hash;
+    }
+
+    protected async submitTransaction(inputs: UTXO[], outputs: TxInputOutput[], reference: string | null): Promise<string> {
+        const transactionInputs: TxInputOutput[] = inputs.map(utxo => [utxo.address, utxo.amount]);
+        const hash = this.chain.createTransactionHash(transactionInputs, outputs, reference);
+        for (const utxo of inputs) {
+            this.spentOutputs.set(`${utxo.transactionHash}:${utxo.outputIndex}`, hash);
         }
+        // mark transaction failed if too little fee is added (as in MockChainWallet); its inputs then stay unspent
+        const fee = sumBN(transactionInputs, ([_, amount]) => amount).sub(sumBN(outputs, ([_, amount]) => amount));
+        const status = fee.gte(this.chain.currentRequiredFee()) ? TX_SUCCESS : TX_FAILED;
+        this.chain.addTransaction({ hash, inputs: transactionInputs, outputs, reference, status });
+        return hash;
+    }
+
+    private isSpent(transactionHash: string, outputIndex: number) {
+        const spendingHash = this.spentOutputs.get(`${transactionHash}:${outputIndex}`);
+        if (spendingHash == null) return false;
+        // the spending transaction may have failed or vanished in a reorg
+        if (this.chain.nextBlockTransactions.some(tx => tx.hash === spendingHash)) return true;
+        const [block, index] = this.chain.transactionIndex[spendingHash] ?? [null, null];
+        return block != null && index != null && this.chain.blocks[block].transactions[index].status === TX_SUCCESS;
     }
 }